@@ -126,16 +126,10 @@ async function main() {
 
   // Step 4: Copy compiled server files
   log('Step 4: Copying server files...');
-  cpSync(join(DIST_DIR, 'index.js'), join(BUILD_DIR, 'server', 'index.js'));
-  cpSync(join(DIST_DIR, 'signal-db.js'), join(BUILD_DIR, 'server', 'signal-db.js'));
-
-  // Copy declaration files if they exist (useful for debugging)
-  if (existsSync(join(DIST_DIR, 'index.d.ts'))) {
-    cpSync(join(DIST_DIR, 'index.d.ts'), join(BUILD_DIR, 'server', 'index.d.ts'));
-  }
-  if (existsSync(join(DIST_DIR, 'signal-db.d.ts'))) {
-    cpSync(join(DIST_DIR, 'signal-db.d.ts'), join(BUILD_DIR, 'server', 'signal-db.d.ts'));
-  }
+  // Copy every compiled module, plus declaration files (useful for debugging)
+  copyDirectory(DIST_DIR, join(BUILD_DIR, 'server'), (srcPath, name) =>
+    statSync(srcPath).isDirectory() || name.endsWith('.js') || name.endsWith('.d.ts')
+  );
 
   // Step 5: Install production dependencies in bundle
   log('Step 5: Installing production dependencies...');
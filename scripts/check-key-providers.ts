@@ -0,0 +1,154 @@
+/**
+ * Checks the Linux keyring providers against stand-in `secret-tool` and
+ * `kwallet-query` binaries, without a real desktop keyring.
+ *
+ * The stand-ins are shell scripts put on PATH in a temporary directory. Each
+ * records the arguments it was called with and prints the password, exits
+ * with an error or is left out, as a case needs.
+ *
+ * Run with: npm run check:keyring
+ */
+
+import assert from "assert/strict";
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createCipheriv, pbkdf2Sync, randomBytes } from "crypto";
+import { decryptEncryptedKey, KeyProviderError } from "../src/key-providers.js";
+
+const KEY = randomBytes(32).toString("hex");
+const PASSWORD = "keyring-password";
+
+// Encrypt a key the way Electron safeStorage does on Linux with a keyring
+function encryptKey(key: string, password: string): string {
+  const derived = pbkdf2Sync(password, Buffer.from("saltysalt"), 1, 16, "sha1");
+  const cipher = createCipheriv("aes-128-cbc", derived, Buffer.alloc(16, 0x20));
+  return Buffer.concat([Buffer.from("v11"), cipher.update(key, "utf-8"), cipher.final()]).toString("hex");
+}
+
+interface FakeCommand {
+  // Printed on stdout, or on stderr when `status` is non-zero
+  output: string;
+  status?: number;
+}
+
+const binDir = mkdtempSync(join(tmpdir(), "signal-keyring-"));
+
+// Replace the stand-in commands; a command left out is not installed
+function installCommands(commands: Record<string, FakeCommand>): void {
+  for (const name of ["secret-tool", "kwallet-query"]) {
+    rmSync(join(binDir, name), { force: true });
+    rmSync(join(binDir, `${name}.args`), { force: true });
+  }
+  for (const [name, { output, status = 0 }] of Object.entries(commands)) {
+    const path = join(binDir, name);
+    writeFileSync(
+      path,
+      [
+        "#!/bin/sh",
+        `printf '%s\\n' "$@" > '${path}.args'`,
+        status === 0 ? `printf '%s\\n' '${output}'` : `printf '%s\\n' '${output}' >&2`,
+        `exit ${status}`,
+        "",
+      ].join("\n")
+    );
+    chmodSync(path, 0o755);
+  }
+}
+
+function calledWith(name: string): string[] {
+  return readFileSync(join(binDir, `${name}.args`), "utf-8").trimEnd().split("\n");
+}
+
+function decrypt(backendHint?: string): string {
+  return decryptEncryptedKey(encryptKey(KEY, PASSWORD), { os: "linux", backendHint });
+}
+
+function failure(backendHint?: string): KeyProviderError {
+  try {
+    decrypt(backendHint);
+  } catch (error) {
+    assert.ok(error instanceof KeyProviderError, `expected KeyProviderError, got ${error}`);
+    return error;
+  }
+  assert.fail("expected decryption to fail");
+}
+
+const cases: Array<[string, () => void]> = [
+  ["secret-tool lookup", () => {
+    installCommands({ "secret-tool": { output: PASSWORD } });
+    assert.equal(decrypt(), KEY);
+    assert.deepEqual(calledWith("secret-tool"), ["lookup", "application", "Signal"]);
+  }],
+
+  ["kwallet-query lookup, tried first for a KWallet backend", () => {
+    installCommands({ "kwallet-query": { output: PASSWORD }, "secret-tool": { output: "wrong" } });
+    assert.equal(decrypt("kwallet5"), KEY);
+    assert.deepEqual(calledWith("kwallet-query"), [
+      "--read-password", "Signal Safe Storage",
+      "--folder", "Signal Keys",
+      "kdewallet",
+    ]);
+  }],
+
+  ["falls back to KWallet when secret-tool fails", () => {
+    installCommands({
+      "secret-tool": { output: "Cannot autolaunch D-Bus", status: 1 },
+      "kwallet-query": { output: PASSWORD },
+    });
+    assert.equal(decrypt(), KEY);
+  }],
+
+  ["neither keyring tool installed", () => {
+    installCommands({});
+    assert.deepEqual(failure().attempts.map((a) => a.error), [
+      "no password found in the environment",
+      "secret-tool is not installed",
+      "kwallet-query is not installed",
+    ]);
+  }],
+
+  ["keyring errors and empty passwords", () => {
+    installCommands({
+      "secret-tool": { output: "" },
+      "kwallet-query": { output: "", status: 2 },
+    });
+    const { attempts, message } = failure();
+    assert.deepEqual(attempts.slice(1), [
+      { provider: "Secret Service (secret-tool)", error: "no password found in the Secret Service" },
+      { provider: "KWallet (kwallet-query)", error: "kwallet-query exited with status 2" },
+    ]);
+    assert.match(message, /SIGNAL_KEY/);
+  }],
+
+  ["wrong password from the keyring", () => {
+    installCommands({ "secret-tool": { output: "not-the-password" } });
+    assert.match(failure().attempts[1].error, /wrong password/);
+  }],
+];
+
+const originalPath = process.env.PATH;
+delete process.env.SIGNAL_SAFE_STORAGE_PASSWORD;
+// Only the stand-ins are found; /bin/sh runs them by absolute path
+process.env.PATH = binDir;
+
+let failed = 0;
+try {
+  for (const [name, run] of cases) {
+    try {
+      run();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`not ok - ${name}\n${error instanceof Error ? error.message : error}`);
+    }
+  }
+} finally {
+  process.env.PATH = originalPath;
+  rmSync(binDir, { recursive: true, force: true });
+}
+
+if (failed > 0) {
+  console.log(`${failed} of ${cases.length} checks failed`);
+  process.exit(1);
+}
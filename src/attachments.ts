@@ -0,0 +1,153 @@
+// Attachment metadata and access to attachment files on disk.
+//
+// Signal Desktop stores attachment files under `attachments.noindex/` in the
+// profile directory, at the relative `path` recorded in the message JSON.
+// Since v7 files are encrypted at rest (attachment `version` 2): each file is
+// IV (16 bytes) || AES-256-CBC ciphertext || HMAC-SHA256 (32 bytes), keyed by
+// the attachment's base64 `localKey` (32-byte AES key followed by a 32-byte
+// MAC key). Older attachments are stored as plain files.
+
+import { existsSync, readFileSync, statSync } from "fs";
+import { join, resolve, sep } from "path";
+import { createDecipheriv, createHmac, timingSafeEqual } from "crypto";
+
+// Attachment flag bit Signal sets on voice notes
+const VOICE_MESSAGE_FLAG = 1;
+
+const IV_LENGTH = 16;
+const MAC_LENGTH = 32;
+
+export interface AttachmentInfo {
+  messageId: string;
+  index: number;
+  fileName: string | null;
+  contentType: string | null;
+  size: number | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  caption: string | null;
+  isVoiceNote: boolean;
+  downloaded: boolean;
+}
+
+// The subset of Signal's attachment JSON this module reads
+export interface RawAttachment {
+  fileName?: string;
+  contentType?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+  caption?: string;
+  flags?: number;
+  path?: string;
+  version?: number;
+  localKey?: string;
+  pending?: boolean;
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function parseAttachments(raw: unknown, messageId: string): AttachmentInfo[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.map((attachment: RawAttachment, index): AttachmentInfo => ({
+    messageId,
+    index,
+    fileName: attachment.fileName || null,
+    contentType: attachment.contentType || null,
+    size: numberOrNull(attachment.size),
+    width: numberOrNull(attachment.width),
+    height: numberOrNull(attachment.height),
+    duration: numberOrNull(attachment.duration),
+    caption: attachment.caption || null,
+    isVoiceNote: ((attachment.flags ?? 0) & VOICE_MESSAGE_FLAG) !== 0,
+    downloaded: !!attachment.path && !attachment.pending,
+  }));
+}
+
+function decryptAttachment(data: Buffer, localKey: string, plaintextSize?: number): Buffer {
+  const keys = Buffer.from(localKey, "base64");
+  if (keys.length !== 64) {
+    throw new Error("Attachment localKey has an unexpected length");
+  }
+  if (data.length < IV_LENGTH + MAC_LENGTH) {
+    throw new Error("Attachment file is too short to be encrypted data");
+  }
+
+  const aesKey = keys.subarray(0, 32);
+  const macKey = keys.subarray(32);
+  const iv = data.subarray(0, IV_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH, data.length - MAC_LENGTH);
+  const mac = data.subarray(data.length - MAC_LENGTH);
+
+  const expectedMac = createHmac("sha256", macKey)
+    .update(data.subarray(0, data.length - MAC_LENGTH))
+    .digest();
+  if (!timingSafeEqual(mac, expectedMac)) {
+    throw new Error("Attachment integrity check failed (bad MAC)");
+  }
+
+  const decipher = createDecipheriv("aes-256-cbc", aesKey, iv);
+  const plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+  // Encrypted files may be padded beyond the real size
+  return plaintextSize !== undefined && plaintext.length > plaintextSize
+    ? plaintext.subarray(0, plaintextSize)
+    : plaintext;
+}
+
+// Read an attachment's contents, decrypting it if it is encrypted at rest.
+export function readAttachmentFile(
+  sourceDir: string,
+  attachment: RawAttachment,
+  maxBytes: number
+): Buffer {
+  if (!attachment.path || attachment.pending) {
+    throw new Error("Attachment has not been downloaded by Signal Desktop");
+  }
+
+  // Never follow a path out of the attachments directory
+  const attachmentsDir = resolve(join(sourceDir, "attachments.noindex"));
+  const filePath = resolve(attachmentsDir, attachment.path);
+  if (!filePath.startsWith(attachmentsDir + sep)) {
+    throw new Error("Attachment path points outside the attachments directory");
+  }
+  if (!existsSync(filePath)) {
+    throw new Error(`Attachment file not found at: ${filePath}`);
+  }
+
+  const fileSize = statSync(filePath).size;
+  if (fileSize > maxBytes + IV_LENGTH + MAC_LENGTH + 16) {
+    throw new Error(
+      `Attachment is ${fileSize} bytes, larger than the ${maxBytes} byte limit`
+    );
+  }
+
+  const data = readFileSync(filePath);
+  if (attachment.version === 2 || attachment.localKey) {
+    if (!attachment.localKey) {
+      throw new Error("Attachment is encrypted but has no localKey");
+    }
+    return decryptAttachment(data, attachment.localKey, attachment.size);
+  }
+
+  return data;
+}
+
+export function isTextContentType(contentType: string | null): boolean {
+  if (!contentType) {
+    return false;
+  }
+  return (
+    contentType.startsWith("text/") ||
+    ["application/json", "application/xml", "application/x-yaml", "application/csv"].includes(
+      contentType
+    )
+  );
+}
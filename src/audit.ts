@@ -0,0 +1,184 @@
+// Append-only audit log of tool calls, as JSON Lines.
+//
+// Each line records when a tool was called, by which MCP client, with which
+// arguments, which conversations it read and how many messages it returned.
+// Resource reads and prompts are logged the same way, under their URI or
+// prompt name.
+// Message contents are never written: the log says what was read, not what it
+// said. Like exports, the log is created readable by the current user only.
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+
+export interface AuditEntry {
+  timestamp: string;
+  // Client name and version from the MCP initialize handshake
+  client: { name: string; version: string } | null;
+  // Tool name, resource URI or prompt name
+  tool: string;
+  arguments: Record<string, unknown>;
+  // Conversations read, with the number of messages returned from each
+  conversations: Array<{ id: string; name: string | null; messageCount: number }>;
+  messageCount: number;
+  // Error message, for calls that failed
+  error: string | null;
+}
+
+export interface AuditReport {
+  logPath: string;
+  // Time of the first and last call covered
+  from: string | null;
+  to: string | null;
+  totalCalls: number;
+  failedCalls: number;
+  messagesReturned: number;
+  clients: Array<{ name: string; calls: number }>;
+  tools: Array<{ tool: string; calls: number; messages: number }>;
+  // Conversations read, most messages first
+  conversations: Array<{
+    id: string;
+    name: string | null;
+    calls: number;
+    messages: number;
+    lastAccess: string;
+  }>;
+  // The latest calls, newest first
+  recent: AuditEntry[];
+}
+
+const DISABLED_VALUES = ["off", "false", "0", "none"];
+
+// The log file from SIGNAL_AUDIT_LOG, or null if the user turned logging off.
+// Unset (or an unsubstituted MCPB template) means the default location.
+export function auditLogPath(env: NodeJS.ProcessEnv): string | null {
+  const value = env.SIGNAL_AUDIT_LOG?.trim();
+  if (!value || (value.startsWith("${") && value.includes("}"))) {
+    return join(homedir(), ".signal-desktop-mcp", "audit.jsonl");
+  }
+  if (DISABLED_VALUES.includes(value.toLowerCase())) {
+    return null;
+  }
+  return resolve(value.replace(/^~(?=$|[/\\])/, homedir()));
+}
+
+// What a tool call, resource read or prompt read, filled in while it runs
+export class AccessTracker {
+  private readonly chats = new Map<string, AuditEntry["conversations"][number]>();
+  error: string | null = null;
+
+  // Record that the call read a conversation, returning `messageCount` of its
+  // messages
+  read(id: string, name: string | null, messageCount = 0): void {
+    const chat = this.chats.get(id) ?? { id, name, messageCount: 0 };
+    chat.name = chat.name ?? name;
+    chat.messageCount += messageCount;
+    this.chats.set(id, chat);
+  }
+
+  get conversations(): AuditEntry["conversations"] {
+    return Array.from(this.chats.values());
+  }
+
+  get messageCount(): number {
+    return this.conversations.reduce((sum, chat) => sum + chat.messageCount, 0);
+  }
+}
+
+export class AuditLog {
+  constructor(readonly path: string | null) {}
+
+  // Append one entry. Throws if the log can't be written, so callers can
+  // refuse to return results that would go unrecorded.
+  record(entry: AuditEntry): void {
+    if (!this.path) {
+      return;
+    }
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    appendFileSync(this.path, JSON.stringify(entry) + "\n", { encoding: "utf-8", mode: 0o600 });
+  }
+
+  // Entries within a time range, oldest first. Lines that aren't valid
+  // entries (e.g. one cut short by a crash) are skipped.
+  read(options: { since?: number; until?: number } = {}): AuditEntry[] {
+    if (!this.path) {
+      throw new Error("Audit logging is turned off (SIGNAL_AUDIT_LOG=off)");
+    }
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const { since, until } = options;
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(this.path, "utf-8").split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const time = Date.parse(entry?.timestamp);
+      if (Number.isNaN(time) || typeof entry.tool !== "string") {
+        continue;
+      }
+      if ((since === undefined || time >= since) && (until === undefined || time <= until)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+  return groups;
+}
+
+export function summarizeAudit(logPath: string, entries: AuditEntry[], recentLimit: number): AuditReport {
+  const clients = Array.from(groupBy(entries, (e) => e.client?.name ?? "unknown"), ([name, calls]) => ({
+    name,
+    calls: calls.length,
+  })).sort((a, b) => b.calls - a.calls);
+
+  const tools = Array.from(groupBy(entries, (e) => e.tool), ([tool, calls]) => ({
+    tool,
+    calls: calls.length,
+    messages: calls.reduce((sum, e) => sum + (e.messageCount ?? 0), 0),
+  })).sort((a, b) => b.calls - a.calls);
+
+  const conversations = new Map<string, AuditReport["conversations"][number]>();
+  for (const entry of entries) {
+    for (const { id, name, messageCount } of Array.isArray(entry.conversations) ? entry.conversations : []) {
+      const summary = conversations.get(id) ?? { id, name, calls: 0, messages: 0, lastAccess: entry.timestamp };
+      summary.name = name ?? summary.name;
+      summary.calls++;
+      summary.messages += messageCount ?? 0;
+      summary.lastAccess = entry.timestamp;
+      conversations.set(id, summary);
+    }
+  }
+
+  return {
+    logPath,
+    from: entries[0]?.timestamp ?? null,
+    to: entries[entries.length - 1]?.timestamp ?? null,
+    totalCalls: entries.length,
+    failedCalls: entries.filter((e) => e.error).length,
+    messagesReturned: entries.reduce((sum, e) => sum + (e.messageCount ?? 0), 0),
+    clients,
+    tools,
+    conversations: Array.from(conversations.values()).sort((a, b) => b.messages - a.messages || b.calls - a.calls),
+    recent: entries.slice(-recentLimit).reverse(),
+  };
+}
@@ -0,0 +1,157 @@
+// Mentions and text styles in message bodies.
+//
+// Signal keeps a message's text plain and describes mentions and formatting
+// in the message JSON's `bodyRanges`. A mention replaces one placeholder
+// character (U+FFFC) in the body and names the mentioned user by service ID;
+// a style range marks part of the text bold, italic, spoiler, strikethrough or
+// monospace. Ranges may overlap and are measured in UTF-16 code units, like
+// JavaScript strings.
+
+export type TextStyle = "bold" | "italic" | "spoiler" | "strikethrough" | "monospace";
+
+export interface MentionRange {
+  start: number;
+  length: number;
+  serviceId: string | null;
+  // Name Signal stored with the mention, for when the user can't be looked up
+  replacementText: string | null;
+}
+
+export interface StyleRange {
+  start: number;
+  length: number;
+  style: TextStyle;
+}
+
+export interface BodyRanges {
+  mentions: MentionRange[];
+  styles: StyleRange[];
+}
+
+export interface RenderBodyOptions {
+  // Name of a mentioned user, without the @
+  mentionName(serviceId: string | null, replacementText: string | null): string;
+  // Show spoilers as ||text|| rather than hiding them
+  showSpoilers: boolean;
+}
+
+// SignalService.BodyRange.Style
+const STYLES: Record<number, TextStyle> = {
+  1: "bold",
+  2: "italic",
+  3: "spoiler",
+  4: "strikethrough",
+  5: "monospace",
+};
+
+// Markdown for each style, outermost first
+const MARKERS: Array<[TextStyle, string]> = [
+  ["spoiler", "||"],
+  ["bold", "**"],
+  ["italic", "*"],
+  ["strikethrough", "~~"],
+  ["monospace", "`"],
+];
+
+const HIDDEN_SPOILER = "[spoiler]";
+
+export function parseBodyRanges(raw: unknown): BodyRanges {
+  const ranges: BodyRanges = { mentions: [], styles: [] };
+  if (!Array.isArray(raw)) {
+    return ranges;
+  }
+
+  for (const range of raw) {
+    if (!range || typeof range.start !== "number" || typeof range.length !== "number" || range.length <= 0) {
+      continue;
+    }
+    // Mentions from before ACIs were named mentionUuid
+    const serviceId = range.mentionAci || range.mentionUuid;
+    if (typeof serviceId === "string" || typeof range.replacementText === "string") {
+      ranges.mentions.push({
+        start: range.start,
+        length: range.length,
+        serviceId: typeof serviceId === "string" ? serviceId : null,
+        replacementText: typeof range.replacementText === "string" ? range.replacementText : null,
+      });
+    } else if (STYLES[range.style]) {
+      ranges.styles.push({ start: range.start, length: range.length, style: STYLES[range.style] });
+    }
+  }
+  return ranges;
+}
+
+function covers(range: { start: number; length: number }, position: number): boolean {
+  return range.start <= position && position < range.start + range.length;
+}
+
+// Wrap text in the Markdown for its styles. Markers can't start or end with
+// whitespace, so surrounding whitespace is kept outside them.
+function applyStyles(text: string, styles: Set<TextStyle>): string {
+  const [, leading, inner, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  if (!inner) {
+    return text;
+  }
+  const markers = MARKERS.filter(([style]) => styles.has(style)).map(([, marker]) => marker);
+  return leading + markers.join("") + inner + markers.reverse().join("") + trailing;
+}
+
+function sameStyles(a: Set<TextStyle>, b: Set<TextStyle>): boolean {
+  return a.size === b.size && Array.from(a).every((style) => b.has(style));
+}
+
+// The body with mentions replaced by @Name and styles converted to Markdown.
+// Hidden spoilers are replaced by [spoiler], however many styles they span.
+export function renderBodyRanges(body: string, ranges: BodyRanges, options: RenderBodyOptions): string {
+  if (ranges.mentions.length === 0 && ranges.styles.length === 0) {
+    return body;
+  }
+
+  // Split the body wherever a range starts or ends
+  const boundaries = new Set([0, body.length]);
+  for (const range of [...ranges.mentions, ...ranges.styles]) {
+    boundaries.add(Math.min(range.start, body.length));
+    boundaries.add(Math.min(range.start + range.length, body.length));
+  }
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const pieces: Array<{ text: string; styles: Set<TextStyle> }> = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const styles = new Set(ranges.styles.filter((r) => covers(r, start)).map((r) => r.style));
+    const mention = ranges.mentions.find((r) => covers(r, start));
+
+    let text: string;
+    if (mention) {
+      // A mention is replaced as a whole, where it starts
+      if (mention.start !== start) {
+        continue;
+      }
+      text = `@${options.mentionName(mention.serviceId, mention.replacementText)}`;
+    } else {
+      text = body.slice(start, points[i + 1]);
+    }
+
+    if (styles.has("spoiler") && !options.showSpoilers) {
+      styles.clear();
+      styles.add("spoiler");
+      text = HIDDEN_SPOILER;
+    }
+
+    const previous = pieces[pieces.length - 1];
+    if (previous && sameStyles(previous.styles, styles)) {
+      // A hidden spoiler is shown once, not once per piece
+      if (!(styles.has("spoiler") && !options.showSpoilers)) {
+        previous.text += text;
+      }
+    } else {
+      pieces.push({ text, styles });
+    }
+  }
+
+  return pieces
+    .map(({ text, styles }) =>
+      styles.has("spoiler") && !options.showSpoilers ? text : applyStyles(text, styles)
+    )
+    .join("");
+}
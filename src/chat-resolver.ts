@@ -0,0 +1,207 @@
+// Resolution of the user-supplied `chat_name` argument to a single conversation.
+//
+// A chat can be named by its conversation id, service ID (or group ID), phone
+// number, or display name. Names are tried exactly first, then ignoring case
+// and accents, then as a unique substring. Anything less certain is reported
+// back as an error listing the candidates, never silently guessed.
+
+import { foldText } from "./search.js";
+
+export interface ChatCandidate {
+  id: string;
+  name: string | null;
+  profileName: string | null;
+  type: "private" | "group";
+  number: string | null;
+  serviceId: string | null;
+  groupId: string | null;
+  activeAt: number | null;
+  // Every name the chat is known by: contact name, profile name, group title
+  aliases: string[];
+}
+
+export interface ChatSummary {
+  id: string;
+  name: string | null;
+  type: "private" | "group";
+  number: string | null;
+  serviceId: string | null;
+  lastActive: string | null;
+}
+
+export class ChatResolutionError extends Error {
+  constructor(
+    message: string,
+    readonly code: "chat_not_found" | "ambiguous_chat",
+    readonly query: string,
+    readonly candidates: ChatSummary[]
+  ) {
+    super(message);
+    this.name = "ChatResolutionError";
+  }
+
+  toJSON(): object {
+    return {
+      error: this.code,
+      message: this.message,
+      query: this.query,
+      candidates: this.candidates,
+    };
+  }
+}
+
+export class AmbiguousChatError extends ChatResolutionError {
+  constructor(query: string, candidates: ChatSummary[]) {
+    super(
+      `"${query}" matches ${candidates.length} chats. ` +
+      `Pass one of the candidate ids as chat_name to pick one.`,
+      "ambiguous_chat",
+      query,
+      candidates
+    );
+    this.name = "AmbiguousChatError";
+  }
+}
+
+export class ChatNotFoundError extends ChatResolutionError {
+  constructor(query: string, suggestions: ChatSummary[]) {
+    super(
+      suggestions.length > 0
+        ? `No chat found matching "${query}". Did you mean one of: ` +
+          suggestions.map((s) => `"${s.name ?? s.id}"`).join(", ") + "?"
+        : `No chat found matching "${query}".`,
+      "chat_not_found",
+      query,
+      suggestions
+    );
+    this.name = "ChatNotFoundError";
+  }
+}
+
+export function summarizeChat(candidate: ChatCandidate): ChatSummary {
+  return {
+    id: candidate.id,
+    name: candidate.name,
+    type: candidate.type,
+    number: candidate.number,
+    serviceId: candidate.serviceId,
+    lastActive: candidate.activeAt ? new Date(candidate.activeAt).toISOString() : null,
+  };
+}
+
+// Strip the punctuation people type into phone numbers. Returns null if what's
+// left doesn't look like an E.164 number.
+export function normalizePhoneNumber(value: string): string | null {
+  const stripped = value.replace(/[\s().-]/g, "");
+  if (!/^\+?\d{6,15}$/.test(stripped)) {
+    return null;
+  }
+  return stripped.startsWith("+") ? stripped : `+${stripped}`;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How close a name is to the query, from 0 (unrelated) to 1 (identical once
+// folded). Also compares against each word of the name so "sam" scores well
+// against "Sam Rivera".
+function similarity(query: string, name: string): number {
+  const q = foldText(query);
+  const candidates = [foldText(name), ...foldText(name).split(/\s+/)];
+  let best = 0;
+  for (const c of candidates) {
+    if (!c) continue;
+    const distance = levenshtein(q, c);
+    best = Math.max(best, 1 - distance / Math.max(q.length, c.length));
+  }
+  return best;
+}
+
+// Most recently active first, so the likeliest candidates lead the list
+function byActivity(a: ChatCandidate, b: ChatCandidate): number {
+  return (b.activeAt ?? 0) - (a.activeAt ?? 0);
+}
+
+function pickOne(query: string, matches: ChatCandidate[]): ChatCandidate | null {
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length > 1) {
+    throw new AmbiguousChatError(query, [...matches].sort(byActivity).map(summarizeChat));
+  }
+  return null;
+}
+
+export function resolveChatCandidate(
+  query: string,
+  candidates: ChatCandidate[],
+  maxSuggestions = 5
+): ChatCandidate {
+  const trimmed = query.trim();
+
+  // Identifiers are unique, so the first hit wins
+  const byId = candidates.find(
+    (c) => c.id === trimmed || c.serviceId === trimmed || c.groupId === trimmed
+  );
+  if (byId) {
+    return byId;
+  }
+
+  const number = normalizePhoneNumber(trimmed);
+  if (number) {
+    const byNumber = pickOne(trimmed, candidates.filter((c) => c.number === number));
+    if (byNumber) {
+      return byNumber;
+    }
+  }
+
+  const exact = pickOne(trimmed, candidates.filter((c) => c.aliases.includes(trimmed)));
+  if (exact) {
+    return exact;
+  }
+
+  const folded = foldText(trimmed);
+  const caseInsensitive = pickOne(
+    trimmed,
+    candidates.filter((c) => c.aliases.some((a) => foldText(a) === folded))
+  );
+  if (caseInsensitive) {
+    return caseInsensitive;
+  }
+
+  if (folded.length >= 2) {
+    const partial = pickOne(
+      trimmed,
+      candidates.filter((c) => c.aliases.some((a) => foldText(a).includes(folded)))
+    );
+    if (partial) {
+      return partial;
+    }
+  }
+
+  const suggestions = candidates
+    .map((c) => ({
+      candidate: c,
+      score: Math.max(0, ...c.aliases.map((a) => similarity(trimmed, a))),
+    }))
+    .filter((s) => s.score >= 0.5)
+    .sort((a, b) => b.score - a.score || byActivity(a.candidate, b.candidate))
+    .slice(0, maxSuggestions)
+    .map((s) => summarizeChat(s.candidate));
+
+  throw new ChatNotFoundError(trimmed, suggestions);
+}
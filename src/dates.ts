@@ -0,0 +1,172 @@
+// Parsing for the `since` / `until` arguments accepted by the message tools.
+//
+// Every expression resolves to a span of time rather than a single instant, so
+// the same word works at either end of a range: `since: "last week"` starts at
+// the beginning of last week while `until: "last week"` stops at its end.
+// Calendar expressions use the server's local time zone, and weeks start on
+// Monday.
+
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+export interface TimeRange {
+  since?: number;
+  until?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  min: 60 * 1000,
+  minute: 60 * 1000,
+  h: 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  d: DAY_MS,
+  day: DAY_MS,
+  w: 7 * DAY_MS,
+  week: 7 * DAY_MS,
+};
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  // getDay() is 0 for Sunday; shift so Monday is the first day of the week
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return addDays(startOfDay(date), -daysSinceMonday);
+}
+
+// The Saturday 00:00 – Monday 00:00 window that is in progress, or else the
+// one that most recently finished.
+function mostRecentWeekend(now: Date): TimeSpan {
+  const saturday = addDays(startOfWeek(now), 5);
+  const start = saturday.getTime() <= now.getTime() ? saturday : addDays(saturday, -7);
+  return { start: start.getTime(), end: addDays(start, 2).getTime() - 1 };
+}
+
+function daySpan(day: Date): TimeSpan {
+  return { start: day.getTime(), end: addDays(day, 1).getTime() - 1 };
+}
+
+// Resolve a date expression to the span of time it names. Accepts ISO-8601
+// dates and date-times, durations counted back from now ("7d", "12h",
+// "3 weeks ago"), and calendar words ("today", "yesterday", "this week",
+// "last week", "this month", "last month", "this weekend", "last weekend").
+export function parseTimeExpression(expression: string, now = new Date()): TimeSpan {
+  const text = expression.trim().toLowerCase();
+  const nowMs = now.getTime();
+
+  switch (text) {
+    case "now":
+      return { start: nowMs, end: nowMs };
+    case "today":
+      return daySpan(startOfDay(now));
+    case "yesterday":
+      return daySpan(addDays(startOfDay(now), -1));
+    case "this week": {
+      const start = startOfWeek(now);
+      return { start: start.getTime(), end: addDays(start, 7).getTime() - 1 };
+    }
+    case "last week": {
+      const start = addDays(startOfWeek(now), -7);
+      return { start: start.getTime(), end: addDays(start, 7).getTime() - 1 };
+    }
+    case "this month": {
+      const start = new Date(now.getFullYear(), now.getMonth(), 1);
+      const end = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+      return { start: start.getTime(), end: end.getTime() - 1 };
+    }
+    case "last month": {
+      const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      const end = new Date(now.getFullYear(), now.getMonth(), 1);
+      return { start: start.getTime(), end: end.getTime() - 1 };
+    }
+    case "weekend":
+    case "this weekend":
+      return mostRecentWeekend(now);
+    case "last weekend": {
+      // On a Saturday or Sunday "last weekend" means the one before this one
+      const current = mostRecentWeekend(now);
+      const inWeekend = nowMs <= current.end;
+      if (!inWeekend) {
+        return current;
+      }
+      return { start: current.start - 7 * DAY_MS, end: current.end - 7 * DAY_MS };
+    }
+  }
+
+  // Durations: "7d", "12h", "30 min", "3 weeks ago", "2 months"
+  // Only single-letter units go without a plural, so "1ms" isn't read as minutes
+  const duration = text.match(
+    /^(\d+)\s*(mo|months?|min(?:ute)?s?|m|h(?:our)?s?|d(?:ay)?s?|w(?:eek)?s?|y(?:ear)?s?)(?:\s+ago)?$/
+  );
+  if (duration) {
+    const amount = parseInt(duration[1], 10);
+    const unit = duration[2].replace(/s$/, "");
+    if (unit === "mo" || unit === "month") {
+      const start = new Date(now);
+      start.setMonth(start.getMonth() - amount);
+      return { start: start.getTime(), end: nowMs };
+    }
+    if (unit === "y" || unit === "year") {
+      const start = new Date(now);
+      start.setFullYear(start.getFullYear() - amount);
+      return { start: start.getTime(), end: nowMs };
+    }
+    if (UNIT_MS[unit]) {
+      return { start: nowMs - amount * UNIT_MS[unit], end: nowMs };
+    }
+  }
+
+  // A bare ISO date covers the whole (local) day
+  const isoDate = expression.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoDate) {
+    const [year, month, date] = isoDate.slice(1).map((part) => parseInt(part, 10));
+    const day = new Date(year, month - 1, date);
+    // Out-of-range parts roll over (2024-02-30 would be March 1st)
+    if (day.getFullYear() === year && day.getMonth() === month - 1 && day.getDate() === date) {
+      return daySpan(day);
+    }
+  }
+
+  // Full ISO-8601 date-time
+  if (/^\d{4}-\d{2}-\d{2}T/i.test(expression.trim())) {
+    const instant = Date.parse(expression.trim());
+    if (!Number.isNaN(instant)) {
+      return { start: instant, end: instant };
+    }
+  }
+
+  throw new Error(
+    `Unrecognized date expression: "${expression}". ` +
+    `Use an ISO-8601 date (2024-05-01 or 2024-05-01T09:00:00Z), a duration like "7d" or "12h", ` +
+    `or one of: today, yesterday, this week, last week, this month, last month, this weekend, last weekend.`
+  );
+}
+
+// Turn optional since/until expressions into an inclusive millisecond range.
+export function parseTimeRange(
+  since: string | undefined,
+  until: string | undefined,
+  now = new Date()
+): TimeRange {
+  const range: TimeRange = {};
+  if (since) {
+    range.since = parseTimeExpression(since, now).start;
+  }
+  if (until) {
+    range.until = parseTimeExpression(until, now).end;
+  }
+  if (range.since !== undefined && range.until !== undefined && range.since > range.until) {
+    throw new Error(`"since" (${since}) is after "until" (${until})`);
+  }
+  return range;
+}
@@ -0,0 +1,334 @@
+// Export of a whole conversation (or a date range of one) to a file.
+//
+// Four formats are supported: a Markdown transcript, a self-contained HTML page
+// with image attachments inlined as thumbnails, JSON Lines with one message per
+// line, and CSV. Exports contain private messages, so files are created
+// readable by the current user only.
+
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { AttachmentInfo } from "./attachments.js";
+import { PrivacyPolicy, redactValue } from "./policy.js";
+import {
+  FormattedMessage,
+  QuotedMessage,
+  SignalDatabase,
+  SystemEventFilter,
+} from "./signal-db.js";
+
+export type ExportFormat = "markdown" | "html" | "jsonl" | "csv";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["markdown", "html", "jsonl", "csv"];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  html: "html",
+  jsonl: "jsonl",
+  csv: "csv",
+};
+
+// Images larger than this are referenced by name rather than inlined
+const MAX_INLINE_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// Only these image types are inlined. The content type comes from the
+// message, so anything else could smuggle markup into the data URI.
+const INLINE_IMAGE_TYPES = /^image\/(png|jpeg|gif|webp)$/;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  outputPath?: string;
+  since?: number;
+  until?: number;
+  systemEvents?: SystemEventFilter;
+  // Redactions to apply to the exported text
+  policy?: PrivacyPolicy;
+}
+
+export interface ExportResult {
+  path: string;
+  format: ExportFormat;
+  chatId: string;
+  chatName: string | null;
+  messageCount: number;
+}
+
+interface ExportChat {
+  id: string;
+  name: string | null;
+  type: "private" | "group";
+}
+
+// Exports are only ever written inside this directory
+const EXPORT_DIR = join(homedir(), "Signal Exports");
+
+// A file name for the export that isn't taken yet, e.g. "John-Doe-2024-01-15.md",
+// then "John-Doe-2024-01-15-2.md" for a second export on the same day
+function defaultExportPath(chatName: string, format: ExportFormat): string {
+  const safeName = chatName.replace(/[^\p{L}\p{N} _-]+/gu, "").trim().replace(/\s+/g, "-") || "chat";
+  const date = new Date().toISOString().slice(0, 10);
+  const extension = FILE_EXTENSIONS[format];
+  let path = join(EXPORT_DIR, `${safeName}-${date}.${extension}`);
+  for (let n = 2; existsSync(path); n++) {
+    path = join(EXPORT_DIR, `${safeName}-${date}-${n}.${extension}`);
+  }
+  return path;
+}
+
+// Resolve a requested output path inside the export directory. Relative paths
+// are taken from there; anything that would land outside it is refused, so a
+// message can't talk the server into overwriting other files.
+function exportPath(outputPath: string): string {
+  const path = resolve(EXPORT_DIR, outputPath);
+  const inside = relative(EXPORT_DIR, path);
+  if (!inside || inside.split(sep)[0] === ".." || isAbsolute(inside)) {
+    throw new Error(`output_path must be a file inside ${EXPORT_DIR}: ${outputPath}`);
+  }
+  return path;
+}
+
+function describeAttachment(attachment: AttachmentInfo): string {
+  const name = attachment.fileName || attachment.contentType || "attachment";
+  const details = [
+    attachment.isVoiceNote ? "voice note" : null,
+    attachment.contentType,
+    attachment.size !== null ? `${Math.ceil(attachment.size / 1024)} KB` : null,
+  ].filter(Boolean);
+  return details.length > 0 ? `${name} (${details.join(", ")})` : name;
+}
+
+function describeQuote(quote: QuotedMessage): string {
+  if (quote.text) {
+    return quote.text;
+  }
+  const attachment = quote.attachments[0];
+  return attachment ? `[${attachment.fileName || attachment.contentType || "attachment"}]` : "";
+}
+
+function describeReactions(message: FormattedMessage): string {
+  return message.reactions
+    .map((r) => (r.fromName ? `${r.emoji} ${r.fromName}` : r.emoji))
+    .join(", ");
+}
+
+export function toMarkdown(chat: ExportChat, messages: FormattedMessage[]): string {
+  const lines = [
+    `# ${chat.name ?? chat.id}`,
+    "",
+    `Signal ${chat.type} chat, ${messages.length} messages, exported ${new Date().toISOString()}`,
+    "",
+  ];
+
+  for (const message of messages) {
+    if (message.event) {
+      lines.push(`_${message.event.description} · ${message.date}_`, "");
+      continue;
+    }
+    lines.push(`**${message.sender}** · ${message.date}`);
+    if (message.quote) {
+      lines.push(`> **${message.quote.author}:**`);
+      lines.push(...describeQuote(message.quote).split("\n").map((l) => `> ${l}`), "");
+    }
+    if (message.body) {
+      lines.push(message.body);
+    }
+    if (message.sticker) {
+      lines.push(`[sticker ${message.sticker}]`);
+    }
+    for (const attachment of message.attachments) {
+      lines.push(`📎 ${describeAttachment(attachment)}`);
+      if (attachment.caption) {
+        lines.push(`_${attachment.caption}_`);
+      }
+    }
+    if (message.reactions.length > 0) {
+      lines.push(`Reactions: ${describeReactions(message)}`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function toHtml(
+  chat: ExportChat,
+  messages: FormattedMessage[],
+  loadImage: (attachment: AttachmentInfo) => string | null
+): string {
+  const title = escapeHtml(chat.name ?? chat.id);
+  const items = messages.map((message) => {
+    if (message.event) {
+      return `<p class="event">${escapeHtml(message.event.description)} · ` +
+        `<time datetime="${message.date}">${escapeHtml(message.date.replace("T", " ").slice(0, 16))}</time></p>`;
+    }
+    const parts = [
+      `<div class="meta"><span class="sender">${escapeHtml(message.sender)}</span> ` +
+        `<time datetime="${message.date}">${escapeHtml(message.date.replace("T", " ").slice(0, 16))}</time></div>`,
+    ];
+    if (message.quote) {
+      parts.push(
+        `<blockquote><span class="sender">${escapeHtml(message.quote.author)}</span>\n` +
+          `${escapeHtml(describeQuote(message.quote))}</blockquote>`
+      );
+    }
+    if (message.body) {
+      parts.push(`<div class="body">${escapeHtml(message.body)}</div>`);
+    }
+    if (message.sticker) {
+      parts.push(`<div class="sticker">[sticker ${escapeHtml(message.sticker)}]</div>`);
+    }
+    for (const attachment of message.attachments) {
+      const dataUri = loadImage(attachment);
+      const label = escapeHtml(describeAttachment(attachment));
+      parts.push(
+        dataUri
+          ? `<figure><img src="${escapeHtml(dataUri)}" alt="${label}"><figcaption>${escapeHtml(attachment.caption ?? label)}</figcaption></figure>`
+          : `<div class="attachment">📎 ${label}</div>`
+      );
+    }
+    if (message.reactions.length > 0) {
+      parts.push(`<div class="reactions">${escapeHtml(describeReactions(message))}</div>`);
+    }
+    const cls = message.sender === "Me" ? "message outgoing" : "message";
+    return `<article class="${cls}">\n${parts.join("\n")}\n</article>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: -apple-system, system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1b1b1b; }
+.message { margin: 0.75rem 0; padding: 0.5rem 0.75rem; border-radius: 0.75rem; background: #f0f0f0; }
+.outgoing { background: #dbe8ff; }
+.meta { font-size: 0.8rem; color: #555; margin-bottom: 0.25rem; }
+.sender { font-weight: 600; }
+.body { white-space: pre-wrap; }
+blockquote { margin: 0 0 0.25rem; padding-left: 0.5rem; border-left: 3px solid #999; color: #555; white-space: pre-wrap; }
+figure { margin: 0.25rem 0; }
+img { max-width: 320px; max-height: 320px; border-radius: 0.5rem; }
+figcaption, .attachment, .reactions { font-size: 0.85rem; color: #444; }
+.event { text-align: center; font-size: 0.8rem; color: #666; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p>Signal ${chat.type} chat, ${messages.length} messages, exported ${new Date().toISOString()}</p>
+${items.join("\n")}
+</body>
+</html>
+`;
+}
+
+export function toJsonl(messages: FormattedMessage[]): string {
+  return messages.map((message) => JSON.stringify(message)).join("\n") + "\n";
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(messages: FormattedMessage[]): string {
+  const header = [
+    "id",
+    "date",
+    "sender",
+    "sender_number",
+    "body",
+    "quote",
+    "sticker",
+    "reactions",
+    "attachments",
+    "event",
+  ];
+  const rows = messages.map((message) => [
+    message.id,
+    message.date,
+    message.sender,
+    message.senderInfo?.number ?? "",
+    message.body,
+    message.quote ? `${message.quote.author}: ${describeQuote(message.quote)}` : "",
+    message.sticker,
+    describeReactions(message),
+    message.attachments.map(describeAttachment).join("; "),
+    message.event?.description ?? "",
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function exportChat(
+  db: SignalDatabase,
+  chatName: string,
+  options: ExportOptions
+): ExportResult {
+  const { format, since, until, systemEvents, policy } = options;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Unsupported export format: ${format}. Use one of: ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  const resolved = db.resolveChat(chatName);
+  const found = db.getChatMessages(resolved.id, { since, until, order: "asc", systemEvents });
+  const [chat, messages] = policy
+    ? [redactValue(policy, resolved), redactValue(policy, found)]
+    : [resolved, found];
+
+  let content: string;
+  switch (format) {
+    case "markdown":
+      content = toMarkdown(chat, messages);
+      break;
+    case "html":
+      content = toHtml(chat, messages, (attachment) => {
+        if (!INLINE_IMAGE_TYPES.test(attachment.contentType ?? "") || !attachment.downloaded) {
+          return null;
+        }
+        try {
+          const { data } = db.getAttachment(attachment.messageId, attachment.index, {
+            maxBytes: MAX_INLINE_IMAGE_BYTES,
+          });
+          return `data:${attachment.contentType};base64,${data.toString("base64")}`;
+        } catch {
+          // Missing or oversized images are listed by name instead
+          return null;
+        }
+      });
+      break;
+    case "jsonl":
+      content = toJsonl(messages);
+      break;
+    case "csv":
+      content = toCsv(messages);
+      break;
+  }
+
+  const path = options.outputPath
+    ? exportPath(options.outputPath)
+    : defaultExportPath(chat.name ?? chat.id, format);
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  // Never overwrite an existing file
+  try {
+    writeFileSync(path, content, { encoding: "utf-8", mode: 0o600, flag: "wx" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`${path} already exists; choose another output_path`);
+    }
+    throw error;
+  }
+
+  return {
+    path,
+    format,
+    chatId: chat.id,
+    chatName: chat.name,
+    messageCount: messages.length,
+  };
+}
@@ -0,0 +1,249 @@
+// Group (v2) details from a group conversation's JSON, and readable text for
+// the `group-v2-change` messages that record how a group changed over time.
+//
+// Members are identified by service ID: `aci` in current Signal versions,
+// `uuid` in older ones, and `serviceId` for invited members (who may only be
+// known by their PNI). Roles and access levels are the numeric enums from
+// Signal's group protocol.
+
+// Member.Role
+const ROLE_ADMINISTRATOR = 2;
+
+// AccessControl.AccessRequired
+const ACCESS_LEVELS: Record<number, GroupAccess> = {
+  0: "unknown",
+  1: "anyone",
+  2: "members",
+  3: "admins",
+  4: "unsatisfiable",
+};
+const ACCESS_ANY = 1;
+const ACCESS_ADMINISTRATOR = 3;
+
+export type GroupAccess = "unknown" | "anyone" | "members" | "admins" | "unsatisfiable";
+
+// How a service ID is shown: its contact name where one is known
+export interface MemberIdentity {
+  name: string;
+  serviceId: string;
+  conversationId: string | null;
+  number: string | null;
+  isMe: boolean;
+}
+
+export type ResolveMember = (serviceId: string) => MemberIdentity;
+
+export interface GroupMember extends MemberIdentity {
+  isAdmin: boolean;
+  joinedAtRevision: number | null;
+}
+
+export interface PendingMember extends MemberIdentity {
+  invitedBy: string | null;
+  invitedAt: string | null;
+}
+
+export interface RequestingMember extends MemberIdentity {
+  requestedAt: string | null;
+}
+
+export interface BannedMember extends MemberIdentity {
+  bannedAt: string | null;
+}
+
+export interface GroupDetails {
+  description: string | null;
+  revision: number | null;
+  members: GroupMember[];
+  pendingMembers: PendingMember[];
+  requestingMembers: RequestingMember[];
+  bannedMembers: BannedMember[];
+  accessControl: {
+    // Who can change the title, avatar, description and timer
+    attributes: GroupAccess;
+    // Who can add members
+    members: GroupAccess;
+    // Who can join via the group link without approval ("anyone") or with it ("admins")
+    addFromInviteLink: GroupAccess;
+  };
+  announcementsOnly: boolean;
+  inviteLink: {
+    enabled: boolean;
+    requiresApproval: boolean;
+  };
+}
+
+export interface GroupChange {
+  messageId: string;
+  date: string | null;
+  actor: string | null;
+  changes: string[];
+}
+
+function isoOrNull(timestamp: unknown): string | null {
+  return typeof timestamp === "number" && timestamp > 0 ? new Date(timestamp).toISOString() : null;
+}
+
+function memberServiceId(member: any): string | null {
+  return member?.aci || member?.uuid || member?.serviceId || null;
+}
+
+function accessLevel(value: unknown): GroupAccess {
+  return typeof value === "number" ? ACCESS_LEVELS[value] ?? "unknown" : "unknown";
+}
+
+function listOf(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Parse the membership and settings of a group from its conversation JSON.
+// The invite link password itself is never returned: anyone holding it can
+// join the group.
+export function parseGroupDetails(json: any, resolve: ResolveMember): GroupDetails {
+  const withIdentity = <T>(entries: any[], build: (entry: any) => T) =>
+    entries.flatMap((entry) => {
+      const serviceId = memberServiceId(entry);
+      return serviceId ? [{ ...resolve(serviceId), ...build(entry) }] : [];
+    });
+
+  const members: GroupMember[] = withIdentity(listOf(json.membersV2), (member) => ({
+    isAdmin: member.role === ROLE_ADMINISTRATOR,
+    joinedAtRevision: typeof member.joinedAtVersion === "number" ? member.joinedAtVersion : null,
+  }));
+  // Admins first, then alphabetically
+  members.sort((a, b) => Number(b.isAdmin) - Number(a.isAdmin) || a.name.localeCompare(b.name));
+
+  const pendingMembers: PendingMember[] = withIdentity(listOf(json.pendingMembersV2), (member) => ({
+    invitedBy: member.addedByUserId ? resolve(member.addedByUserId).name : null,
+    invitedAt: isoOrNull(member.timestamp),
+  }));
+
+  const requestingMembers: RequestingMember[] = withIdentity(
+    listOf(json.pendingAdminApprovalV2),
+    (member) => ({ requestedAt: isoOrNull(member.timestamp) })
+  );
+
+  const bannedMembers: BannedMember[] = withIdentity(listOf(json.bannedMembersV2), (member) => ({
+    bannedAt: isoOrNull(member.timestamp),
+  }));
+
+  const accessControl = json.accessControl ?? {};
+  const linkAccess = accessControl.addFromInviteLink;
+
+  return {
+    description: typeof json.description === "string" && json.description ? json.description : null,
+    revision: typeof json.revision === "number" ? json.revision : null,
+    members,
+    pendingMembers,
+    requestingMembers,
+    bannedMembers,
+    accessControl: {
+      attributes: accessLevel(accessControl.attributes),
+      members: accessLevel(accessControl.members),
+      addFromInviteLink: accessLevel(linkAccess),
+    },
+    announcementsOnly: !!json.announcementsOnly,
+    inviteLink: {
+      enabled:
+        !!json.groupInviteLinkPassword &&
+        (linkAccess === ACCESS_ANY || linkAccess === ACCESS_ADMINISTRATOR),
+      requiresApproval: linkAccess === ACCESS_ADMINISTRATOR,
+    },
+  };
+}
+
+const ACCESS_DESCRIPTIONS: Record<GroupAccess, string> = {
+  unknown: "an unknown setting",
+  anyone: "all members",
+  members: "all members",
+  admins: "only admins",
+  unsatisfiable: "nobody",
+};
+
+// One line of text per detail of a `groupV2Change`, in the style of Signal's
+// own timeline notices
+export function describeGroupChange(change: any, resolve: ResolveMember): string[] {
+  const from: string | null = change?.from || null;
+  const actor = from ? resolve(from).name : "Someone";
+  const name = (serviceId: string | null | undefined) =>
+    serviceId ? resolve(serviceId).name : "someone";
+
+  return listOf(change?.details).map((detail): string => {
+    // Group changes from before service IDs name members by conversation id
+    const subject: string | null = memberServiceId(detail) || detail.conversationId || null;
+    const bySelf = !!from && subject === from;
+
+    switch (detail.type) {
+      case "create":
+        return `${actor} created the group`;
+      case "title":
+        return detail.newTitle
+          ? `${actor} changed the group name to "${detail.newTitle}"`
+          : `${actor} removed the group name`;
+      case "avatar":
+        return detail.removed ? `${actor} removed the group avatar` : `${actor} changed the group avatar`;
+      case "description":
+        return detail.removed
+          ? `${actor} removed the group description`
+          : `${actor} changed the group description`;
+      case "access-attributes":
+        return `${actor} changed who can edit group info to ${ACCESS_DESCRIPTIONS[accessLevel(detail.newPrivilege)]}`;
+      case "access-members":
+        return `${actor} changed who can add members to ${ACCESS_DESCRIPTIONS[accessLevel(detail.newPrivilege)]}`;
+      case "access-invite-link":
+        return detail.newPrivilege === ACCESS_ADMINISTRATOR
+          ? `${actor} turned on admin approval for the group link`
+          : `${actor} turned off admin approval for the group link`;
+      case "announcements-only":
+        return detail.announcementsOnly
+          ? `${actor} allowed only admins to send messages`
+          : `${actor} allowed all members to send messages`;
+      case "member-add":
+        return bySelf ? `${name(subject)} joined the group` : `${actor} added ${name(subject)}`;
+      case "member-add-from-invite":
+        return detail.inviter
+          ? `${name(subject)} accepted an invitation from ${name(detail.inviter)}`
+          : `${name(subject)} accepted an invitation to the group`;
+      case "member-add-from-link":
+        return `${name(subject)} joined via the group link`;
+      case "member-add-from-admin-approval":
+        return `${actor} approved ${name(subject)}'s request to join`;
+      case "member-privilege":
+        return detail.newPrivilege === ROLE_ADMINISTRATOR
+          ? `${actor} made ${name(subject)} an admin`
+          : `${actor} revoked admin privileges from ${name(subject)}`;
+      case "member-remove":
+        return bySelf ? `${name(subject)} left the group` : `${actor} removed ${name(subject)}`;
+      case "pending-add-one":
+        return `${actor} invited ${name(subject)}`;
+      case "pending-add-many":
+        return `${actor} invited ${detail.count} people`;
+      case "pending-remove-one":
+        return bySelf
+          ? `${name(subject)} declined the invitation`
+          : `${actor} revoked the invitation for ${name(subject)}`;
+      case "pending-remove-many":
+        return `${actor} revoked ${detail.count} invitations`;
+      case "admin-approval-add-one":
+        return `${name(subject)} requested to join via the group link`;
+      case "admin-approval-remove-one":
+        return bySelf
+          ? `${name(subject)} cancelled their request to join`
+          : `${actor} denied ${name(subject)}'s request to join`;
+      case "admin-approval-bounce":
+        return `${name(subject)} requested and cancelled their request to join ${detail.times ?? "several"} times`;
+      case "group-link-add":
+        return detail.privilege === ACCESS_ADMINISTRATOR
+          ? `${actor} turned on the group link with admin approval`
+          : `${actor} turned on the group link`;
+      case "group-link-reset":
+        return `${actor} reset the group link`;
+      case "group-link-remove":
+        return `${actor} turned off the group link`;
+      case "summary":
+        return "The group was updated";
+      default:
+        return `${actor} updated the group (${detail.type ?? "unknown change"})`;
+    }
+  });
+}
@@ -7,8 +7,39 @@ import {
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ErrorCode,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
-import { SignalDatabase } from "./signal-db.js";
+import {
+  STATS_GRANULARITIES,
+  SYSTEM_EVENT_FILTERS,
+  SignalDatabase,
+  SystemEventFilter,
+} from "./signal-db.js";
+import { SignalSession } from "./session.js";
+import { parseTimeRange } from "./dates.js";
+import { ChatResolutionError } from "./chat-resolver.js";
+import { isTextContentType } from "./attachments.js";
+import { EXPORT_FORMATS, ExportFormat, exportChat } from "./export.js";
+import { PolicyError, loadPolicy, redactText, redactValue, restrictsChats } from "./policy.js";
+import { AccessTracker, AuditLog, auditLogPath, summarizeAudit } from "./audit.js";
+import {
+  OUTPUT_FORMATS,
+  OutputFormat,
+  RenderOptions,
+  RenderedOutput,
+  renderMessageContext,
+  renderMessagePage,
+  renderMessages,
+  renderSearchResults,
+  renderStories,
+  renderUnansweredChats,
+} from "./output-format.js";
 
 // Configuration
 const SERVER_NAME = "signal-desktop-mcp";
@@ -33,16 +64,175 @@ const server = new Server(
     capabilities: {
       tools: {},
       prompts: {},
+      resources: { subscribe: true },
     },
   }
 );
 
+// Privacy policy from the environment; an invalid one stops the server rather
+// than running with less protection than configured
+const policy = loadPolicy(process.env);
+log("INFO", "Privacy policy loaded", {
+  allowedChats: policy.allowedChats?.length ?? "all",
+  deniedChats: policy.deniedChats.length,
+  hideDisappearing: policy.hideDisappearing,
+  showSpoilers: policy.showSpoilers,
+  redactions: policy.redactions.map((r) => r.label),
+});
+
+// Every tool call is recorded here, without message contents
+const auditLog = new AuditLog(auditLogPath(process.env));
+log("INFO", auditLog.path ? `Audit log: ${auditLog.path}` : "Audit log turned off");
+
+// Create a database handle from the environment configuration
+function createDatabase(): SignalDatabase {
+  const sourceDir = process.env.SIGNAL_SOURCE_DIR || undefined;
+  const key = process.env.SIGNAL_KEY || undefined;
+
+  log("DEBUG", "Creating database connection", {
+    sourceDir: sourceDir || "(auto-detect)",
+    keyProvided: !!key,
+  });
+
+  return new SignalDatabase(sourceDir, undefined, key, { policy });
+}
+
+// One database session for the server's lifetime; it reopens the database
+// when Signal writes to it
+const session = new SignalSession(createDatabase);
+session.on("watchError", (error) => {
+  log("WARN", "Could not watch Signal database for changes", {
+    error: error instanceof Error ? error.message : String(error),
+  });
+});
+
+const MAX_WAIT_SECONDS = 300;
+const MAX_PAGE_SIZE = 1000;
+
+// Orders the message tools and resources accept
+const MESSAGE_ORDERS: Array<"desc" | "asc"> = ["desc", "asc"];
+
+// Exports can leave system events out, but not consist of only them
+const EXPORT_SYSTEM_EVENT_FILTERS: SystemEventFilter[] = ["include", "exclude"];
+
+// Arguments that fail validation are reported as InvalidParams, naming the
+// argument, rather than as a failed tool call
+function invalidParams(name: string, message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message, { argument: name });
+}
+
+// Read an optional whole-number tool argument, rejecting anything out of range
+// rather than passing it on to SQL. Numeric strings are accepted, since some
+// clients send every argument as a string.
+function integerArg(
+  args: Record<string, unknown> | undefined,
+  name: string,
+  defaultValue: number,
+  { min = 0, max = Number.MAX_SAFE_INTEGER }: { min?: number; max?: number } = {}
+): number {
+  const raw = args?.[name];
+  if (raw === undefined || raw === null) {
+    return defaultValue;
+  }
+  const value = typeof raw === "string" && /^-?\d+$/.test(raw.trim()) ? Number(raw) : raw;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    throw invalidParams(name, `${name} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+// Read an optional tool argument that must be one of `values`, rejecting
+// anything else rather than falling back to the default
+function enumArg<T extends string>(
+  args: Record<string, unknown> | undefined,
+  name: string,
+  values: readonly T[],
+  defaultValue: T
+): T {
+  const raw = args?.[name];
+  if (raw === undefined || raw === null) {
+    return defaultValue;
+  }
+  if (typeof raw !== "string" || !values.includes(raw as T)) {
+    throw invalidParams(name, `${name} must be one of: ${values.join(", ")}`);
+  }
+  return raw as T;
+}
+
+// Smallest max_chars accepted: enough for a message or two and a note
+const MIN_MAX_CHARS = 500;
+
+// Output options shared by the tools that return messages
+const OUTPUT_PROPERTIES = {
+  output_format: {
+    type: "string",
+    enum: OUTPUT_FORMATS,
+    description: "How to format the result: \"json\" (default), \"compact_json\" (no indentation, empty fields left out) or \"transcript\" (one line per message, e.g. \"[2024-01-15 10:30] John: text\", times in UTC; far shorter, but without message ids)",
+    default: "json",
+  },
+  max_chars: {
+    type: "number",
+    description: `Cap the length of the result at this many characters (at least ${MIN_MAX_CHARS}). Messages that don't fit are left out whole, and a note says how to see them.`,
+  },
+};
+
+function outputOptions(args: Record<string, unknown> | undefined): RenderOptions {
+  const format = enumArg<OutputFormat>(args, "output_format", OUTPUT_FORMATS, "json");
+  const maxChars = args?.max_chars === undefined
+    ? undefined
+    : integerArg(args, "max_chars", 0, { min: MIN_MAX_CHARS });
+  return { format, maxChars };
+}
+
+// Tool result for rendered messages, with any note as a separate block so
+// JSON output stays parseable
+function renderedContent({ text, note }: RenderedOutput) {
+  return {
+    content: [
+      { type: "text" as const, text },
+      ...(note ? [{ type: "text" as const, text: note }] : []),
+    ],
+  };
+}
+
+// Resolve once messages newer than `marker` exist (in one conversation, or any),
+// or with an empty list once the timeout passes.
+function waitForNewMessages(marker: number, conversationId: string | undefined, timeoutMs: number) {
+  type NewMessages = ReturnType<SignalDatabase["getMessagesAfterMarker"]>;
+
+  return new Promise<NewMessages>((resolve, reject) => {
+    const finish = (result: NewMessages | Error) => {
+      clearTimeout(timer);
+      session.off("change", check);
+      if (result instanceof Error) {
+        reject(result);
+      } else {
+        resolve(result);
+      }
+    };
+
+    const check = () => {
+      try {
+        const messages = session.database().getMessagesAfterMarker(marker, { conversationId });
+        if (messages.length > 0) {
+          finish(messages);
+        }
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    };
+
+    const timer = setTimeout(() => finish([]), timeoutMs);
+    session.on("change", check);
+  });
+}
+
 // Tool definitions with complete schemas
 const TOOLS = [
   {
     name: "signal_list_chats",
     description:
-      "List all Signal chats with their details including contact names, phone numbers, and message counts. Returns an array of chat objects sorted by activity.",
+      "List all Signal chats with their details including contact names, phone numbers, message and unread counts, the latest message, and pinned, archived and muted flags. Returns an array of chat objects sorted by activity, most recent first.",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -54,27 +244,77 @@ const TOOLS = [
       },
     },
   },
+  {
+    name: "signal_inbox",
+    description:
+      "Overview of the Signal inbox, like Signal's own chat list: chats ordered by last activity with unread counts, the latest message and who sent it, and pinned and muted flags. Archived chats are left out unless asked for. Use unread_only to see what needs attention.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        unread_only: {
+          type: "boolean",
+          description: "Only chats with unread messages or marked as unread (default: false)",
+          default: false,
+        },
+        pinned_only: {
+          type: "boolean",
+          description: "Only pinned chats (default: false)",
+          default: false,
+        },
+        include_archived: {
+          type: "boolean",
+          description: "Include archived chats (default: false)",
+          default: false,
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of chats to return (default: 30)",
+          default: 30,
+        },
+      },
+    },
+  },
   {
     name: "signal_get_chat_messages",
     description:
-      "Retrieve messages from a specific Signal chat by contact name or group name. Supports pagination for large conversations.",
+      "Retrieve messages from a specific Signal chat by contact name or group name. Supports date-range filtering (e.g. since: \"this weekend\") and cursor-based pagination for large conversations: the response includes next_cursor, prev_cursor and has_more.",
     inputSchema: {
       type: "object" as const,
       properties: {
         chat_name: {
           type: "string",
-          description: "The name of the chat (contact name or group name) to retrieve messages from",
+          description: "The chat to retrieve messages from: a contact or group name (partial names work if unambiguous), phone number, conversation id or service ID",
         },
         limit: {
           type: "number",
-          description: "Maximum number of messages to return (default: 50)",
+          description: `Maximum number of messages to return (default: 50, maximum: ${MAX_PAGE_SIZE})`,
           default: 50,
         },
-        offset: {
-          type: "number",
-          description: "Number of messages to skip for pagination (default: 0)",
-          default: 0,
+        cursor: {
+          type: "string",
+          description: "Continue from a previous page: pass its next_cursor to keep reading in the same order, or its prev_cursor to go back. Cursors stay valid while new messages arrive.",
+        },
+        since: {
+          type: "string",
+          description: "Only include messages sent at or after this time. Accepts ISO-8601 dates (2024-05-01, 2024-05-01T09:00:00Z), durations back from now (7d, 12h, 3 weeks ago) or calendar words (today, yesterday, this week, last week, this month, last month, this weekend, last weekend)",
+        },
+        until: {
+          type: "string",
+          description: "Only include messages sent at or before this time. Same formats as since; calendar words include their whole span, so until: \"yesterday\" stops at the end of yesterday",
+        },
+        order: {
+          type: "string",
+          enum: MESSAGE_ORDERS,
+          description: "Sort order: \"desc\" for newest first (default) or \"asc\" for chronological order",
+          default: "desc",
+        },
+        system_events: {
+          type: "string",
+          enum: SYSTEM_EVENT_FILTERS,
+          description: "Whether to return system events (calls, disappearing-message timer changes, group updates, safety-number changes) alongside messages: \"include\" (default), \"exclude\" or \"only\"",
+          default: "include",
         },
+        ...OUTPUT_PROPERTIES,
       },
       required: ["chat_name"],
     },
@@ -82,131 +322,947 @@ const TOOLS = [
   {
     name: "signal_search_chat",
     description:
-      "Search for specific text within messages in a Signal chat. Returns matching messages with context.",
+      "Search for specific text within messages in a Signal chat. Uses Signal's full-text index, so results are ranked by relevance and include a highlighted snippet. Supports \"quoted phrases\", prefix* matching and AND/OR/NOT.",
     inputSchema: {
       type: "object" as const,
       properties: {
         chat_name: {
           type: "string",
-          description: "The name of the chat to search within",
+          description: "The chat to search within: a contact or group name (partial names work if unambiguous), phone number, conversation id or service ID",
         },
         query: {
           type: "string",
-          description: "The text to search for in messages (case-insensitive)",
+          description: "The text to search for in messages (case- and accent-insensitive)",
         },
         limit: {
           type: "number",
           description: "Maximum number of matching messages to return (default: 20)",
           default: 20,
         },
+        since: {
+          type: "string",
+          description: "Only include messages sent at or after this time. Accepts ISO-8601 dates (2024-05-01, 2024-05-01T09:00:00Z), durations back from now (7d, 12h, 3 weeks ago) or calendar words (today, yesterday, this week, last week, this month, last month, this weekend, last weekend)",
+        },
+        until: {
+          type: "string",
+          description: "Only include messages sent at or before this time. Same formats as since; calendar words include their whole span, so until: \"yesterday\" stops at the end of yesterday",
+        },
+        ...OUTPUT_PROPERTIES,
       },
       required: ["chat_name", "query"],
     },
   },
+  {
+    name: "signal_search_all",
+    description:
+      "Search for text across every Signal chat (private and group). Returns ranked matching messages grouped by chat, each with sender, date and a highlighted snippet. Supports \"quoted phrases\", prefix* matching and AND/OR/NOT.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        query: {
+          type: "string",
+          description: "The text to search for in messages (case- and accent-insensitive)",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of matching messages to return across all chats (default: 50)",
+          default: 50,
+        },
+        per_chat_limit: {
+          type: "number",
+          description: "Maximum number of matching messages to return from any single chat (default: 10)",
+          default: 10,
+        },
+        since: {
+          type: "string",
+          description: "Only include messages sent at or after this time. Accepts ISO-8601 dates (2024-05-01, 2024-05-01T09:00:00Z), durations back from now (7d, 12h, 3 weeks ago) or calendar words (today, yesterday, this week, last week, this month, last month, this weekend, last weekend)",
+        },
+        until: {
+          type: "string",
+          description: "Only include messages sent at or before this time. Same formats as since; calendar words include their whole span, so until: \"yesterday\" stops at the end of yesterday",
+        },
+        ...OUTPUT_PROPERTIES,
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "signal_export_chat",
+    description:
+      "Export a whole Signal chat, or a date range of it, to a file: a Markdown transcript, a self-contained HTML page with inline image thumbnails, JSON Lines or CSV. Returns the output path and message count.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "The chat to export: a contact or group name, phone number, conversation id or service ID",
+        },
+        format: {
+          type: "string",
+          enum: EXPORT_FORMATS,
+          description: "Export format (default: markdown)",
+          default: "markdown",
+        },
+        output_path: {
+          type: "string",
+          description: "File to write, inside ~/Signal Exports (relative paths are taken from there). Existing files are never overwritten. Defaults to ~/Signal Exports/<chat>-<date>.<ext>",
+        },
+        since: {
+          type: "string",
+          description: "Only export messages sent at or after this time (ISO-8601 date or expression like 30d, last month)",
+        },
+        until: {
+          type: "string",
+          description: "Only export messages sent at or before this time",
+        },
+        system_events: {
+          type: "string",
+          enum: EXPORT_SYSTEM_EVENT_FILTERS,
+          description: "Whether to include system events such as calls and group updates (default: include)",
+          default: "include",
+        },
+      },
+      required: ["chat_name"],
+    },
+  },
+  {
+    name: "signal_wait_for_new_messages",
+    description:
+      "Wait until new Signal messages arrive, in one chat or any chat, and return them. Returns an empty list if nothing arrives before the timeout.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "Only wait for messages in this chat (name, phone number, conversation id or service ID). Omit to wait for messages in any chat.",
+        },
+        timeout_seconds: {
+          type: "number",
+          description: `How long to wait before giving up (default: 60, maximum: ${MAX_WAIT_SECONDS})`,
+          default: 60,
+        },
+        ...OUTPUT_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "signal_get_message_context",
+    description:
+      "Get a Signal message together with the messages just before and after it in the same chat. Use it to read the conversation around a search hit, or follow a reply chain via quote.id.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        message_id: {
+          type: "string",
+          description: "The id of the message (the id field of any returned message, or quote.id)",
+        },
+        before: {
+          type: "number",
+          description: "Number of earlier messages to include (default: 5)",
+          default: 5,
+        },
+        after: {
+          type: "number",
+          description: "Number of later messages to include (default: 5)",
+          default: 5,
+        },
+        ...OUTPUT_PROPERTIES,
+      },
+      required: ["message_id"],
+    },
+  },
+  {
+    name: "signal_get_attachment",
+    description:
+      "Read a file attached to a Signal message. Images are returned as images, text files as text, and other files (e.g. PDFs, audio) as embedded content. Use the messageId and index from a message's attachments list.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        message_id: {
+          type: "string",
+          description: "The id of the message the attachment belongs to (attachments[].messageId)",
+        },
+        index: {
+          type: "number",
+          description: "Which of the message's attachments to read (attachments[].index, default: 0)",
+          default: 0,
+        },
+        max_bytes: {
+          type: "number",
+          description: "Refuse attachments larger than this many bytes (default: 10485760, i.e. 10 MB)",
+          default: 10485760,
+        },
+      },
+      required: ["message_id"],
+    },
+  },
+  {
+    name: "signal_chat_stats",
+    description:
+      "Activity statistics for one Signal chat, or all chats: messages per sender, messages per day/week/month, an hour-of-day and weekday heatmap, average response times between participants, first and last message dates, and attachment and reaction totals. Use it for questions like \"who is most active in this group\" or \"when do I usually talk to Sam\".",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "The chat to analyse (name, phone number, conversation id or service ID). Omit to cover every chat.",
+        },
+        granularity: {
+          type: "string",
+          enum: STATS_GRANULARITIES,
+          description: "Period size for the activity timeline (default: month)",
+          default: "month",
+        },
+        since: {
+          type: "string",
+          description: "Only count messages sent at or after this time (ISO-8601 date or expression like 30d, last month)",
+        },
+        until: {
+          type: "string",
+          description: "Only count messages sent at or before this time",
+        },
+      },
+    },
+  },
+  {
+    name: "signal_get_group_info",
+    description:
+      "Details of a Signal group: description, members (with admins flagged), pending invitations, join requests, banned members, permissions, announcement-only mode, group link state, and a timeline of joins, leaves, promotions and name changes.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "The group: its name (partial names work if unambiguous), conversation id or group ID",
+        },
+        history_limit: {
+          type: "number",
+          description: "Maximum number of group changes to include in the timeline, most recent kept (default: 50)",
+          default: 50,
+        },
+      },
+      required: ["chat_name"],
+    },
+  },
+  {
+    name: "signal_get_contact",
+    description:
+      "Profile and trust details of a Signal contact: username, about text, whether their safety number is verified, blocked/archived/muted/profile-sharing state, shared groups, disappearing-message timer, and the history of safety-number changes. Use it to check who you are really talking to before acting on a request.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "The contact: name (partial names work if unambiguous), phone number, conversation id or service ID",
+        },
+      },
+      required: ["chat_name"],
+    },
+  },
+  {
+    name: "signal_call_history",
+    description:
+      "List voice and video calls from Signal's call log, newest first: who called whom, when, for how long, and whether the call was answered, missed or declined.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "Only list calls with this contact or group (name, phone number, conversation id or service ID). Omit for all calls.",
+        },
+        since: {
+          type: "string",
+          description: "Only include calls at or after this time (ISO-8601 date or expression like 7d, last week)",
+        },
+        until: {
+          type: "string",
+          description: "Only include calls at or before this time",
+        },
+        missed_only: {
+          type: "boolean",
+          description: "Only list missed calls (default: false)",
+          default: false,
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of calls to return (default: 50)",
+          default: 50,
+        },
+      },
+    },
+  },
+  {
+    name: "signal_list_stories",
+    description:
+      "List recent Signal stories, newest first: author, audience (group or distribution list), text-story content or caption, attachment details, who viewed your own stories, and the replies and reactions each story received. Stories expire after a day, so only recent ones are available.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "Only list stories by this contact or posted to this group (name, phone number, conversation id or service ID)",
+        },
+        since: {
+          type: "string",
+          description: "Only include stories posted at or after this time (ISO-8601 date or expression like 12h, today)",
+        },
+        until: {
+          type: "string",
+          description: "Only include stories posted at or before this time",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of stories to return (default: 20)",
+          default: 20,
+        },
+        include_replies: {
+          type: "boolean",
+          description: "Include each story's replies (default: true). Reply counts are always included.",
+          default: true,
+        },
+        ...OUTPUT_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "signal_unanswered_messages",
+    description:
+      "Find messages you sent that were read but never got a reply, grouped by chat with the most recent first. Useful for follow-up triage.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "Only check this chat (name, phone number, conversation id or service ID). Omit to check every chat.",
+        },
+        since: {
+          type: "string",
+          description: "Only consider messages sent at or after this time (default: 30d)",
+          default: "30d",
+        },
+        until: {
+          type: "string",
+          description: "Only consider messages sent at or before this time, e.g. 1d to skip messages sent in the last day",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of chats to return (default: 20)",
+          default: 20,
+        },
+        ...OUTPUT_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: "signal_list_links",
+    description:
+      "List the links shared in a Signal chat or across all chats, grouped by domain. Each link is listed once, with its preview title and description, and who shared it when. Useful for finding an article or page someone sent.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        chat_name: {
+          type: "string",
+          description: "Only list links shared in this chat (name, phone number, conversation id or service ID). Omit to search every chat.",
+        },
+        since: {
+          type: "string",
+          description: "Only include links shared at or after this time (ISO-8601 date or expression like 30d, last month)",
+        },
+        until: {
+          type: "string",
+          description: "Only include links shared at or before this time",
+        },
+        domain: {
+          type: "string",
+          description: "Only include links to this domain or its subdomains, e.g. nytimes.com",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of distinct links to return, most recently shared first (default: 100)",
+          default: 100,
+        },
+      },
+    },
+  },
+  {
+    name: "signal_audit_report",
+    description:
+      "Summarize recent access to Signal messages from the server's audit log: calls per tool and client, which conversations were read and how many messages were returned, plus the latest calls.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        since: {
+          type: "string",
+          description: "Only include calls made at or after this time (default: 7d)",
+          default: "7d",
+        },
+        until: {
+          type: "string",
+          description: "Only include calls made at or before this time",
+        },
+        recent: {
+          type: "number",
+          description: "Number of latest calls to list in full (default: 20)",
+          default: 20,
+        },
+      },
+    },
+  },
 ];
 
-// Register tools handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  log("DEBUG", "Listing available tools");
-  return { tools: TOOLS };
+// Register tools handler
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  log("DEBUG", "Listing available tools");
+  return { tools: TOOLS };
+});
+
+// Handle tool calls
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+  log("INFO", `Tool call received: ${name}`, { arguments: args });
+
+  const access = new AccessTracker();
+  let result: Awaited<ReturnType<typeof callTool>> | undefined;
+  let failure: unknown = null;
+  try {
+    result = await callTool(name, args, access);
+  } catch (error) {
+    failure = error;
+  }
+
+  // Results are only returned once they are on record
+  const auditError = recordAccess(name, args ?? {}, access);
+  if (auditError) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `Error: Could not write the audit log (${auditError}), so the result was withheld.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (failure) {
+    throw failure;
+  }
+  return result!;
 });
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  log("INFO", `Tool call received: ${name}`, { arguments: args });
+// Put a tool call, resource read or prompt on the audit log. Returns why the
+// log couldn't be written, in which case the result must be withheld.
+function recordAccess(request: string, args: Record<string, unknown>, access: AccessTracker): string | null {
+  try {
+    const client = server.getClientVersion();
+    auditLog.record({
+      timestamp: new Date().toISOString(),
+      client: client ? { name: client.name, version: client.version } : null,
+      tool: request,
+      arguments: args,
+      conversations: access.conversations,
+      messageCount: access.messageCount,
+      error: access.error,
+    });
+    return null;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log("ERROR", "Could not write the audit log", { path: auditLog.path, error: errorMessage });
+    return errorMessage;
+  }
+}
 
+// Run a tool, noting in `access` which conversations it read
+async function callTool(name: string, args: Record<string, unknown> | undefined, access: AccessTracker) {
   try {
-    // Create database connection
-    const sourceDir = process.env.SIGNAL_SOURCE_DIR || undefined;
-    const key = process.env.SIGNAL_KEY || undefined;
+    const db = session.database();
 
-    log("DEBUG", "Creating database connection", {
-      sourceDir: sourceDir || "(auto-detect)",
-      keyProvided: !!key,
-    });
+    switch (name) {
+      case "signal_list_chats": {
+        log("DEBUG", "Listing chats");
+        const chats = db.listChats({
+          includeEmpty: (args?.include_empty as boolean) ?? false,
+        });
+        for (const chat of chats) {
+          if (chat.lastMessage) {
+            access.read(chat.id, chat.name, 1);
+          }
+        }
+
+        log("INFO", `Found ${chats.length} chats`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, chats), null, 2),
+            },
+          ],
+        };
+      }
+
+      case "signal_inbox": {
+        const unreadOnly = (args?.unread_only as boolean) ?? false;
+        const pinnedOnly = (args?.pinned_only as boolean) ?? false;
+        const includeArchived = (args?.include_archived as boolean) ?? false;
+        const limit = integerArg(args, "limit", 30, { min: 1, max: MAX_PAGE_SIZE });
+
+        log("DEBUG", "Listing inbox", { unreadOnly, pinnedOnly, includeArchived, limit });
+        const chats = db.listChats({ includeArchived, unreadOnly, pinnedOnly });
+        const shown = chats.slice(0, limit);
+        for (const chat of shown) {
+          if (chat.lastMessage) {
+            access.read(chat.id, chat.name, 1);
+          }
+        }
+
+        const inbox = {
+          unreadChats: chats.filter((chat) => chat.unreadCount > 0 || chat.markedUnread).length,
+          unreadMessages: chats.reduce((sum, chat) => sum + chat.unreadCount, 0),
+          totalChats: chats.length,
+          chats: shown,
+        };
+
+        log("INFO", `Listed ${shown.length} of ${chats.length} inbox chats`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, inbox), null, 2),
+            },
+          ],
+        };
+      }
 
-    const db = new SignalDatabase(sourceDir, undefined, key);
+      case "signal_get_chat_messages": {
+        const chatName = args?.chat_name as string;
+        if (!chatName) {
+          throw new Error("chat_name is required");
+        }
+
+        const limit = integerArg(args, "limit", 50, { min: 1, max: MAX_PAGE_SIZE });
+        const cursor = args?.cursor as string | undefined;
+        const order = enumArg(args, "order", MESSAGE_ORDERS, "desc");
+        const systemEvents = enumArg(args, "system_events", SYSTEM_EVENT_FILTERS, "include");
+        const output = outputOptions(args);
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
+
+        log("DEBUG", `Getting messages for chat: ${chatName}`, { limit, cursor, since, until, order, systemEvents, ...output });
+        const chat = db.resolveChat(chatName);
+        const page = db.getChatMessagePage(chat.id, { limit, cursor, since, until, order, systemEvents });
+        access.read(chat.id, chat.name, page.messages.length);
+
+        log("INFO", `Retrieved ${page.messages.length} messages from "${chatName}"`, { hasMore: page.has_more });
+        return renderedContent(
+          renderMessagePage(redactValue(policy, page), output, (message) => db.getMessageCursor(message.id, order))
+        );
+      }
+
+      case "signal_search_chat": {
+        const chatName = args?.chat_name as string;
+        const query = args?.query as string;
+
+        if (!chatName) {
+          throw new Error("chat_name is required");
+        }
+        if (!query) {
+          throw new Error("query is required");
+        }
+
+        const limit = integerArg(args, "limit", 20, { min: 1, max: MAX_PAGE_SIZE });
+        const output = outputOptions(args);
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
+
+        log("DEBUG", `Searching chat "${chatName}" for: ${query}`, { limit, since, until, ...output });
+        const chat = db.resolveChat(chatName);
+        const messages = db.searchChat(chat.id, query, { limit, since, until });
+        access.read(chat.id, chat.name, messages.length);
+
+        log("INFO", `Found ${messages.length} matching messages in "${chatName}"`);
+        return renderedContent(renderMessages(redactValue(policy, messages), output));
+      }
+
+      case "signal_search_all": {
+        const query = args?.query as string;
+        if (!query) {
+          throw new Error("query is required");
+        }
+
+        const limit = integerArg(args, "limit", 50, { min: 1, max: MAX_PAGE_SIZE });
+        const perChatLimit = integerArg(args, "per_chat_limit", 10, { min: 1, max: MAX_PAGE_SIZE });
+        const output = outputOptions(args);
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
 
-    try {
-      switch (name) {
-        case "signal_list_chats": {
-          log("DEBUG", "Listing chats");
-          const chats = db.listChats({
-            includeEmpty: (args?.include_empty as boolean) ?? false,
-          });
+        log("DEBUG", `Searching all chats for: ${query}`, { limit, perChatLimit, since, until, ...output });
+        const results = db.searchAll(query, { limit, perChatLimit, since, until });
+        for (const result of results) {
+          access.read(result.chatId, result.chatName, result.hits.length);
+        }
+
+        const hitCount = results.reduce((sum, r) => sum + r.hits.length, 0);
+        log("INFO", `Found ${hitCount} matching messages in ${results.length} chats`);
+        return renderedContent(renderSearchResults(redactValue(policy, results), output));
+      }
+
+      case "signal_get_message_context": {
+        const messageId = args?.message_id as string;
+        if (!messageId) {
+          throw new Error("message_id is required");
+        }
+
+        const before = integerArg(args, "before", 5, { max: MAX_PAGE_SIZE });
+        const after = integerArg(args, "after", 5, { max: MAX_PAGE_SIZE });
+        const output = outputOptions(args);
+
+        log("DEBUG", `Getting context for message ${messageId}`, { before, after, ...output });
+        const context = db.getMessageContext(messageId, { before, after });
+        access.read(context.conversationId, context.chatName, context.before.length + context.after.length + 1);
+
+        log("INFO", `Retrieved ${context.before.length} + ${context.after.length} messages around ${messageId}`);
+        return renderedContent(renderMessageContext(redactValue(policy, context), output));
+      }
+
+      case "signal_get_attachment": {
+        const messageId = args?.message_id as string;
+        if (!messageId) {
+          throw new Error("message_id is required");
+        }
+
+        const index = integerArg(args, "index", 0);
+        const maxBytes = integerArg(args, "max_bytes", 10 * 1024 * 1024, { min: 1 });
 
-          log("INFO", `Found ${chats.length} chats`);
+        log("DEBUG", `Reading attachment ${index} of message ${messageId}`, { maxBytes });
+        const { info, data, conversationId } = db.getAttachment(messageId, index, { maxBytes });
+        access.read(conversationId, db.resolveChat(conversationId).name);
+
+        log("INFO", `Read attachment "${info.fileName ?? info.contentType}" (${data.length} bytes)`);
+        const contentType = info.contentType || "application/octet-stream";
+        const metadata = {
+          type: "text" as const,
+          text: JSON.stringify(redactValue(policy, info), null, 2),
+        };
+
+        if (contentType.startsWith("image/")) {
           return {
             content: [
-              {
-                type: "text" as const,
-                text: JSON.stringify(chats, null, 2),
-              },
+              metadata,
+              { type: "image" as const, data: data.toString("base64"), mimeType: contentType },
             ],
           };
         }
 
-        case "signal_get_chat_messages": {
-          const chatName = args?.chat_name as string;
-          if (!chatName) {
-            throw new Error("chat_name is required");
-          }
-
-          const limit = (args?.limit as number) ?? 50;
-          const offset = (args?.offset as number) ?? 0;
-
-          log("DEBUG", `Getting messages for chat: ${chatName}`, { limit, offset });
-          const messages = db.getChatMessages(chatName, { limit, offset });
-
-          log("INFO", `Retrieved ${messages.length} messages from "${chatName}"`);
+        if (contentType.startsWith("audio/")) {
           return {
             content: [
-              {
-                type: "text" as const,
-                text: JSON.stringify(messages, null, 2),
-              },
+              metadata,
+              { type: "audio" as const, data: data.toString("base64"), mimeType: contentType },
             ],
           };
         }
 
-        case "signal_search_chat": {
-          const chatName = args?.chat_name as string;
-          const query = args?.query as string;
+        if (isTextContentType(contentType)) {
+          return {
+            content: [metadata, { type: "text" as const, text: redactText(policy, data.toString("utf-8")) }],
+          };
+        }
+
+        return {
+          content: [
+            metadata,
+            {
+              type: "resource" as const,
+              resource: {
+                uri: `signal://message/${encodeURIComponent(messageId)}/attachment/${index}`,
+                mimeType: contentType,
+                blob: data.toString("base64"),
+              },
+            },
+          ],
+        };
+      }
 
-          if (!chatName) {
-            throw new Error("chat_name is required");
-          }
-          if (!query) {
-            throw new Error("query is required");
+      case "signal_export_chat": {
+        const chatName = args?.chat_name as string;
+        if (!chatName) {
+          throw new Error("chat_name is required");
+        }
+
+        const format = enumArg<ExportFormat>(args, "format", EXPORT_FORMATS, "markdown");
+        const outputPath = args?.output_path as string | undefined;
+        const systemEvents = enumArg(args, "system_events", EXPORT_SYSTEM_EVENT_FILTERS, "include");
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
+
+        log("DEBUG", `Exporting chat: ${chatName}`, { format, outputPath, since, until, systemEvents });
+        const result = exportChat(db, chatName, { format, outputPath, since, until, systemEvents, policy });
+        access.read(result.chatId, result.chatName, result.messageCount);
+
+        log("INFO", `Exported ${result.messageCount} messages to ${result.path}`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, result), null, 2),
+            },
+          ],
+        };
+      }
+
+      case "signal_wait_for_new_messages": {
+        const chatName = args?.chat_name as string | undefined;
+        const timeoutSeconds = integerArg(args, "timeout_seconds", 60, { min: 1, max: MAX_WAIT_SECONDS });
+        const output = outputOptions(args);
+
+        const conversationId = chatName ? db.resolveChat(chatName).id : undefined;
+        const marker = db.getLatestMessageMarker(conversationId);
+
+        log("DEBUG", `Waiting for new messages`, { chatName, timeoutSeconds });
+        const messages = await waitForNewMessages(marker, conversationId, timeoutSeconds * 1000);
+        for (const message of messages) {
+          access.read(message.conversationId, message.chatName, 1);
+        }
+
+        log("INFO", `Received ${messages.length} new messages`);
+        return renderedContent(
+          renderMessages(redactValue(policy, messages), output, (message) => message.chatName)
+        );
+      }
+
+      case "signal_chat_stats": {
+        const chatName = args?.chat_name as string | undefined;
+        const granularity = enumArg(args, "granularity", STATS_GRANULARITIES, "month");
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
+
+        log("DEBUG", `Computing stats for ${chatName ?? "all chats"}`, { granularity, since, until });
+        const stats = db.getChatStats(chatName, { since, until, granularity });
+        if (stats.chatId) {
+          access.read(stats.chatId, stats.chatName);
+        }
+
+        log("INFO", `Computed stats over ${stats.totalMessages} messages`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, stats), null, 2),
+            },
+          ],
+        };
+      }
+
+      case "signal_get_group_info": {
+        const chatName = args?.chat_name as string;
+        if (!chatName) {
+          throw new Error("chat_name is required");
+        }
+
+        const historyLimit = integerArg(args, "history_limit", 50, { min: 0, max: MAX_PAGE_SIZE });
+
+        log("DEBUG", `Getting group info: ${chatName}`, { historyLimit });
+        const group = db.getGroupInfo(chatName, { historyLimit });
+        access.read(group.id, group.name);
+
+        log("INFO", `Retrieved group "${group.name}" with ${group.memberCount} members`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, group), null, 2),
+            },
+          ],
+        };
+      }
+
+      case "signal_get_contact": {
+        const chatName = args?.chat_name as string;
+        if (!chatName) {
+          throw new Error("chat_name is required");
+        }
+
+        log("DEBUG", `Getting contact: ${chatName}`);
+        const contact = db.getContact(chatName);
+        access.read(contact.id, contact.name);
+
+        log("INFO", `Retrieved contact "${contact.name}"`, {
+          safetyNumberChanges: contact.safetyNumberHistory.length,
+        });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, contact), null, 2),
+            },
+          ],
+        };
+      }
+
+      case "signal_call_history": {
+        const chatName = args?.chat_name as string | undefined;
+        const missedOnly = (args?.missed_only as boolean) ?? false;
+        const limit = integerArg(args, "limit", 50, { min: 1, max: MAX_PAGE_SIZE });
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
+
+        log("DEBUG", `Getting call history`, { chatName, since, until, missedOnly, limit });
+        const calls = db.getCallHistory({ chatName, since, until, missedOnly, limit });
+        for (const call of calls) {
+          if (call.chatId) {
+            access.read(call.chatId, call.chatName);
           }
+        }
+
+        log("INFO", `Retrieved ${calls.length} calls`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, calls), null, 2),
+            },
+          ],
+        };
+      }
 
-          const limit = (args?.limit as number) ?? 20;
+      case "signal_list_stories": {
+        const chatName = args?.chat_name as string | undefined;
+        const limit = integerArg(args, "limit", 20, { min: 1, max: MAX_PAGE_SIZE });
+        const includeReplies = (args?.include_replies as boolean) ?? true;
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
 
-          log("DEBUG", `Searching chat "${chatName}" for: ${query}`, { limit });
-          const messages = db.searchChat(chatName, query, { limit });
+        const output = outputOptions(args);
+        log("DEBUG", `Listing stories`, { chatName, since, until, limit, includeReplies, ...output });
+        const stories = db.listStories({ chatName, since, until, limit, includeReplies });
+        for (const story of stories) {
+          access.read(story.chatId, story.audience ?? story.author, 1 + story.replies.length);
+        }
 
-          log("INFO", `Found ${messages.length} matching messages in "${chatName}"`);
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: JSON.stringify(messages, null, 2),
-              },
-            ],
-          };
+        log("INFO", `Retrieved ${stories.length} stories`);
+        return renderedContent(renderStories(redactValue(policy, stories), output));
+      }
+
+      case "signal_unanswered_messages": {
+        const chatName = args?.chat_name as string | undefined;
+        const limit = integerArg(args, "limit", 20, { min: 1, max: MAX_PAGE_SIZE });
+        const { since, until } = parseTimeRange(
+          (args?.since as string | undefined) ?? "30d",
+          args?.until as string | undefined
+        );
+
+        const output = outputOptions(args);
+        log("DEBUG", `Finding unanswered messages`, { chatName, since, until, limit, ...output });
+        const chats = db.getUnansweredMessages({ chatName, since, until, limit });
+        for (const chat of chats) {
+          access.read(chat.chatId, chat.chatName, chat.messages.length);
+        }
+
+        log("INFO", `Found unanswered messages in ${chats.length} chats`);
+        return renderedContent(renderUnansweredChats(redactValue(policy, chats), output));
+      }
+
+      case "signal_list_links": {
+        const chatName = args?.chat_name as string | undefined;
+        const domain = args?.domain as string | undefined;
+        const limit = integerArg(args, "limit", 100, { min: 1, max: MAX_PAGE_SIZE });
+        const { since, until } = parseTimeRange(
+          args?.since as string | undefined,
+          args?.until as string | undefined
+        );
+
+        log("DEBUG", `Listing shared links`, { chatName, since, until, domain, limit });
+        const domains = db.listLinks({ chatName, since, until, domain, limit });
+
+        const shares = domains.flatMap((d) => d.links.flatMap((link) => link.shares));
+        const messagesByChat = new Map<string, { name: string | null; ids: Set<string> }>();
+        for (const share of shares) {
+          const chat = messagesByChat.get(share.chatId) ?? { name: share.chatName, ids: new Set<string>() };
+          chat.ids.add(share.messageId);
+          messagesByChat.set(share.chatId, chat);
+        }
+        for (const [chatId, chat] of messagesByChat) {
+          access.read(chatId, chat.name, chat.ids.size);
+        }
+
+        log("INFO", `Found ${shares.length} shares of links on ${domains.length} domains`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, domains), null, 2),
+            },
+          ],
+        };
+      }
+
+      case "signal_audit_report": {
+        const logPath = auditLog.path;
+        if (!logPath) {
+          throw new Error("Audit logging is turned off (SIGNAL_AUDIT_LOG=off), so there is nothing to report");
         }
 
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+        const recent = integerArg(args, "recent", 20, { max: MAX_PAGE_SIZE });
+        const { since, until } = parseTimeRange(
+          (args?.since as string | undefined) ?? "7d",
+          args?.until as string | undefined
+        );
+
+        log("DEBUG", `Reading audit log`, { logPath, since, until, recent });
+        const report = summarizeAudit(logPath, auditLog.read({ since, until }), recent);
+
+        log("INFO", `Summarized ${report.totalCalls} audited calls`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(redactValue(policy, report), null, 2),
+            },
+          ],
+        };
       }
-    } finally {
-      db.close();
-      log("DEBUG", "Database connection closed");
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     log("ERROR", `Tool ${name} failed`, { error: errorMessage });
+    access.error = errorMessage;
+
+    // Invalid arguments are a protocol error, answered with their error code
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    // Chat lookups fail with candidates the model can pick from, so return
+    // them in structured form rather than as a flat message
+    if (error instanceof ChatResolutionError) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(redactValue(policy, error), null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+
     return {
       content: [
         {
@@ -217,8 +1273,227 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
+}
+
+// Resource templates. Chats and messages are addressed by id; the messages
+// template accepts the same since/until/order/limit options as the
+// signal_get_chat_messages tool.
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "signal://chat/{conversationId}",
+    name: "Signal chat",
+    description: "Details of a Signal chat: name, type, phone number and message count",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "signal://chat/{conversationId}/messages{?since,until,order,limit}",
+    name: "Signal chat messages",
+    description:
+      "Messages from a Signal chat, newest first by default. since/until accept ISO-8601 dates or expressions like 7d or last week.",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "signal://message/{messageId}",
+    name: "Signal message",
+    description: "A single Signal message",
+    mimeType: "application/json",
+  },
+];
+
+const DEFAULT_RESOURCE_MESSAGE_LIMIT = 200;
+
+function chatMessagesUri(conversationId: string, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams(params).toString();
+  return `signal://chat/${encodeURIComponent(conversationId)}/messages${query ? `?${query}` : ""}`;
+}
+
+// Read a signal:// resource, returning its JSON representation and noting in
+// `access` which conversation it read
+function readResource(db: SignalDatabase, uri: string, access: AccessTracker): string {
+  const match = uri.match(/^signal:\/\/(chat|message)\/([^/?]+)(\/messages)?(?:\?(.*))?$/);
+  if (!match) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const [, kind, rawId, messages, rawQuery] = match;
+  const id = decodeURIComponent(rawId);
+
+  if (kind === "message") {
+    if (messages) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    const message = db.getMessage(id);
+    access.read(message.conversationId, db.resolveChat(message.conversationId).name, 1);
+    return JSON.stringify(redactValue(policy, message), null, 2);
+  }
+
+  if (!messages) {
+    const info = db.getChatInfo(id);
+    access.read(info.id, info.name, info.lastMessage ? 1 : 0);
+    return JSON.stringify(redactValue(policy, info), null, 2);
+  }
+
+  const params = new URLSearchParams(rawQuery ?? "");
+  const { since, until } = parseTimeRange(
+    params.get("since") ?? undefined,
+    params.get("until") ?? undefined
+  );
+  // Query parameters are checked like the matching tool arguments
+  const options = Object.fromEntries(params);
+  const order = enumArg(options, "order", MESSAGE_ORDERS, "desc");
+  const limit = integerArg(options, "limit", DEFAULT_RESOURCE_MESSAGE_LIMIT, { min: 1, max: MAX_PAGE_SIZE });
+
+  const chat = db.resolveChat(id);
+  const chatMessages = db.getChatMessages(chat.id, { since, until, order, limit });
+  access.read(chat.id, chat.name, chatMessages.length);
+  return JSON.stringify(redactValue(policy, chatMessages), null, 2);
+}
+
+// Register resource handlers
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  log("DEBUG", "Listing resources");
+  const chats = session.database().listChats();
+  return {
+    resources: chats.map((chat) => ({
+      uri: `signal://chat/${encodeURIComponent(chat.id)}`,
+      name: redactText(policy, chat.name || chat.number || chat.id),
+      description: `Signal ${chat.type} chat with ${chat.totalMessages} messages`,
+      mimeType: "application/json",
+    })),
+  };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  log("DEBUG", "Listing resource templates");
+  return { resourceTemplates: RESOURCE_TEMPLATES };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  log("INFO", `Resource read: ${uri}`);
+
+  const access = new AccessTracker();
+  let text = "";
+  let failure: unknown = null;
+  try {
+    text = readResource(session.database(), uri, access);
+  } catch (error) {
+    failure = error;
+    access.error = error instanceof Error ? error.message : String(error);
+  }
+
+  // Like tool results, contents are only returned once they are on record
+  const auditError = recordAccess(uri, {}, access);
+  if (auditError) {
+    throw new Error(`Could not write the audit log (${auditError}), so the resource was withheld.`);
+  }
+  if (failure) {
+    throw failure;
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text,
+      },
+    ],
+  };
+});
+
+// Subscribed resource URIs, mapped to the conversation they watch and the
+// latest message marker seen for it
+const subscriptions = new Map<string, { conversationId: string; marker: number }>();
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const match = uri.match(/^signal:\/\/chat\/([^/?]+)/);
+  if (!match) {
+    throw new Error(`Only signal://chat/… resources support subscriptions: ${uri}`);
+  }
+
+  const db = session.database();
+  const conversationId = db.resolveChat(decodeURIComponent(match[1])).id;
+  subscriptions.set(uri, { conversationId, marker: db.getLatestMessageMarker(conversationId) });
+
+  log("INFO", `Subscribed to ${uri}`);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscriptions.delete(request.params.uri);
+  log("INFO", `Unsubscribed from ${request.params.uri}`);
+  return {};
+});
+
+// When Signal writes to its database, notify subscribers whose chats received
+// new messages
+session.on("change", async () => {
+  if (subscriptions.size === 0) {
+    return;
+  }
+
+  try {
+    const db = session.database();
+    for (const [uri, subscription] of subscriptions) {
+      const marker = db.getLatestMessageMarker(subscription.conversationId);
+      if (marker > subscription.marker) {
+        subscription.marker = marker;
+        log("DEBUG", `Resource updated: ${uri}`);
+        await server.sendResourceUpdated({ uri });
+      }
+    }
+  } catch (error) {
+    log("WARN", "Failed to check subscriptions for new messages", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 });
 
+// Embed a chat's recent messages in a prompt so the model doesn't need a tool
+// call to fetch them. Returns null if the database can't be read right now, in
+// which case prompts fall back to asking the model to use the tools.
+function embedChatMessages(chatName: string, params: Record<string, string>, access: AccessTracker) {
+  try {
+    const db = session.database();
+    const chat = db.resolveChat(chatName);
+    const uri = chatMessagesUri(chat.id, params);
+    return {
+      role: "user" as const,
+      content: {
+        type: "resource" as const,
+        resource: {
+          uri,
+          mimeType: "application/json",
+          text: readResource(db, uri, access),
+        },
+      },
+    };
+  } catch (error) {
+    log("WARN", `Could not embed messages for chat "${chatName}"`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+// Prompts name a chat directly, so refuse chats the privacy policy hides
+// rather than pointing the model at them. Other lookup problems are left for
+// the tools to report.
+function checkChatPolicy(chatName: string): void {
+  if (!restrictsChats(policy)) {
+    return;
+  }
+  try {
+    session.database().resolveChat(chatName);
+  } catch (error) {
+    if (error instanceof PolicyError) {
+      throw error;
+    }
+  }
+}
+
 // Prompt definitions
 const PROMPTS = [
   {
@@ -272,12 +1547,51 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
   log("DEBUG", `Prompt requested: ${name}`, { arguments: args });
 
+  const access = new AccessTracker();
+  let result: ReturnType<typeof getPrompt> | undefined;
+  let failure: unknown = null;
+  try {
+    result = getPrompt(name, args, access);
+  } catch (error) {
+    failure = error;
+    access.error = error instanceof Error ? error.message : String(error);
+  }
+
+  // Prompts can embed messages, which are only returned once they are on record
+  const auditError = recordAccess(name, args ?? {}, access);
+  if (auditError) {
+    throw new Error(`Could not write the audit log (${auditError}), so the prompt was withheld.`);
+  }
+  if (failure) {
+    throw failure;
+  }
+  return result!;
+});
+
+// Build a prompt, noting in `access` which conversations it embeds
+function getPrompt(name: string, args: Record<string, string> | undefined, access: AccessTracker) {
   switch (name) {
     case "signal_summarize_chat": {
       const chatName = args?.chat_name;
       if (!chatName) {
         throw new Error("chat_name is required");
       }
+      checkChatPolicy(chatName);
+      const embedded = embedChatMessages(chatName, { limit: "100" }, access);
+      if (embedded) {
+        return {
+          messages: [
+            embedded,
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text: `Above are the recent messages from the Signal chat "${chatName}". Please provide a concise summary of the conversation topics, key points, and any action items mentioned.`,
+              },
+            },
+          ],
+        };
+      }
       return {
         messages: [
           {
@@ -296,6 +1610,22 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       if (!chatName) {
         throw new Error("chat_name is required");
       }
+      checkChatPolicy(chatName);
+      const embedded = embedChatMessages(chatName, {}, access);
+      if (embedded) {
+        return {
+          messages: [
+            embedded,
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text: `Above are messages from the Signal chat "${chatName}". Please analyze and list the main topics that have been discussed. Group related messages together and provide a brief description of each topic.`,
+              },
+            },
+          ],
+        };
+      }
       return {
         messages: [
           {
@@ -315,6 +1645,7 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       if (!chatName) {
         throw new Error("chat_name is required");
       }
+      checkChatPolicy(chatName);
       if (!query) {
         throw new Error("query is required");
       }
@@ -334,7 +1665,7 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
     default:
       throw new Error(`Unknown prompt: ${name}`);
   }
-});
+}
 
 // Start the server
 async function main(): Promise<void> {
@@ -344,7 +1675,16 @@ async function main(): Promise<void> {
 
   try {
     const transport = new StdioServerTransport();
+    server.onclose = () => session.close();
     await server.connect(transport);
+
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.on(signal, () => {
+        log("INFO", `Received ${signal}, shutting down`);
+        session.close();
+        process.exit(0);
+      });
+    }
     log("INFO", "Signal Desktop MCP Server started and ready for connections");
   } catch (error) {
     log("ERROR", "Failed to start server", {
@@ -0,0 +1,238 @@
+// Recovery of the SQLCipher key Signal Desktop uses for its database.
+//
+// Older installs store the key in plain text as `key` in config.json. Newer
+// ones store `encryptedKey` instead, encrypted with Electron safeStorage:
+//
+// - macOS: "v10" + AES-128-CBC, key derived from the "Signal Safe Storage"
+//   Keychain password (PBKDF2-SHA1, 1003 iterations).
+// - Linux: "v10" uses the hard-coded password "peanuts" (no keyring was
+//   available); "v11" uses a random password kept in the desktop keyring,
+//   either the Secret Service (GNOME Keyring, KeePassXC, …) or KWallet.
+//   Both derive the key with PBKDF2-SHA1 and a single iteration.
+//
+// Each way of obtaining a password is a provider. They are tried in turn and
+// every failure is recorded, so a final error explains exactly what was tried.
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { platform } from "os";
+import { execFileSync } from "child_process";
+import { pbkdf2Sync, createDecipheriv } from "crypto";
+
+// Electron derives keyring entry names from the app name
+const APP_NAME = "Signal";
+const COMMAND_TIMEOUT_MS = 60_000;
+
+export interface KeyProvider {
+  name: string;
+  // The safeStorage password. Throws with a short reason if unavailable.
+  getPassword(): string;
+}
+
+export interface KeyProviderAttempt {
+  provider: string;
+  error: string;
+}
+
+export class KeyProviderError extends Error {
+  constructor(readonly attempts: KeyProviderAttempt[]) {
+    super(
+      `Could not decrypt Signal's encryptedKey. Tried: ` +
+      attempts.map((a) => `${a.provider} (${a.error})`).join("; ") +
+      `. Provide the key manually with SIGNAL_KEY if none of these can work on this system.`
+    );
+    this.name = "KeyProviderError";
+  }
+}
+
+interface SafeStorageScheme {
+  prefix: "v10" | "v11";
+  iterations: number;
+  providers: KeyProvider[];
+}
+
+function runCommand(command: string, args: string[]): string {
+  try {
+    return execFileSync(command, args, {
+      encoding: "utf-8",
+      timeout: COMMAND_TIMEOUT_MS,
+      stdio: ["ignore", "pipe", "pipe"],
+    }).trim();
+  } catch (error) {
+    const e = error as NodeJS.ErrnoException & { stderr?: string; status?: number };
+    if (e.code === "ENOENT") {
+      throw new Error(`${command} is not installed`);
+    }
+    const detail = e.stderr?.toString().trim();
+    throw new Error(detail || `${command} exited with status ${e.status ?? "unknown"}`);
+  }
+}
+
+function requirePassword(password: string, source: string): string {
+  if (!password) {
+    throw new Error(`no password found in ${source}`);
+  }
+  return password;
+}
+
+export const macKeychainProvider: KeyProvider = {
+  name: "macOS Keychain",
+  getPassword: () =>
+    requirePassword(
+      runCommand("security", ["find-generic-password", "-ws", `${APP_NAME} Safe Storage`]),
+      "the Keychain"
+    ),
+};
+
+// Fixed password Chromium uses on Linux when no keyring is available
+export const linuxBasicTextProvider: KeyProvider = {
+  name: "Linux basic text (\"peanuts\")",
+  getPassword: () => "peanuts",
+};
+
+export const secretServiceProvider: KeyProvider = {
+  name: "Secret Service (secret-tool)",
+  getPassword: () =>
+    requirePassword(
+      runCommand("secret-tool", ["lookup", "application", APP_NAME]),
+      "the Secret Service"
+    ),
+};
+
+export const kwalletProvider: KeyProvider = {
+  name: "KWallet (kwallet-query)",
+  getPassword: () =>
+    requirePassword(
+      runCommand("kwallet-query", [
+        "--read-password", `${APP_NAME} Safe Storage`,
+        "--folder", `${APP_NAME} Keys`,
+        "kdewallet",
+      ]),
+      "KWallet"
+    ),
+};
+
+// Lets the password be supplied directly, e.g. from a password manager or a
+// test stand-in for the keyring
+export const environmentProvider: KeyProvider = {
+  name: "SIGNAL_SAFE_STORAGE_PASSWORD",
+  getPassword: () =>
+    requirePassword(process.env.SIGNAL_SAFE_STORAGE_PASSWORD ?? "", "the environment"),
+};
+
+// Which providers can decrypt a key with this prefix on this platform.
+// `backendHint` is the `safeStorageBackend` Signal records in config.json on
+// Linux (e.g. "gnome_libsecret", "kwallet5"), used to try the right keyring
+// first.
+function schemesFor(os: NodeJS.Platform, backendHint?: string): SafeStorageScheme[] {
+  switch (os) {
+    case "darwin":
+      return [{ prefix: "v10", iterations: 1003, providers: [environmentProvider, macKeychainProvider] }];
+    case "linux": {
+      const keyrings = backendHint?.startsWith("kwallet")
+        ? [kwalletProvider, secretServiceProvider]
+        : [secretServiceProvider, kwalletProvider];
+      return [
+        { prefix: "v10", iterations: 1, providers: [linuxBasicTextProvider] },
+        { prefix: "v11", iterations: 1, providers: [environmentProvider, ...keyrings] },
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+export function decryptKey(password: string, encryptedKeyHex: string, iterations = 1003): string {
+  const encryptedKey = Buffer.from(encryptedKeyHex, "hex");
+  const ciphertext = encryptedKey.subarray(3);
+  const salt = Buffer.from("saltysalt");
+  // Key length 16 bytes (128 bits)
+  const key = pbkdf2Sync(password, salt, iterations, 16, "sha1");
+
+  const iv = Buffer.alloc(16, 0x20); // 16 spaces
+  const decipher = createDecipheriv("aes-128-cbc", key, iv);
+
+  let decrypted: Buffer;
+  try {
+    decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new Error("decryption failed (wrong password?)");
+  }
+
+  const result = decrypted.toString("utf-8");
+  // A wrong password usually fails the padding check above, but not always
+  if (!/^[0-9a-fA-F]{64}$/.test(result)) {
+    throw new Error("decrypted value is not a valid key (wrong password?)");
+  }
+  return result;
+}
+
+export function decryptEncryptedKey(
+  encryptedKeyHex: string,
+  options: { os?: NodeJS.Platform; backendHint?: string } = {}
+): string {
+  const os = options.os ?? platform();
+  const prefix = Buffer.from(encryptedKeyHex, "hex").subarray(0, 3).toString("latin1");
+  const schemes = schemesFor(os, options.backendHint);
+
+  const scheme = schemes.find((s) => s.prefix === prefix);
+  if (!scheme) {
+    const supported = schemes.map((s) => s.prefix).join(", ");
+    throw new KeyProviderError([
+      {
+        provider: `safeStorage on ${os}`,
+        error: supported
+          ? `encryptedKey has unsupported prefix "${prefix}" (expected ${supported})`
+          : `decrypting encryptedKey is not supported on this platform`,
+      },
+    ]);
+  }
+
+  const attempts: KeyProviderAttempt[] = [];
+  for (const provider of scheme.providers) {
+    try {
+      return decryptKey(provider.getPassword(), encryptedKeyHex, scheme.iterations);
+    } catch (error) {
+      attempts.push({
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw new KeyProviderError(attempts);
+}
+
+// The hex SQLCipher key for the profile in `sourceDir`, or null if config.json
+// has no key material at all. Throws KeyProviderError if an encryptedKey is
+// present but can't be decrypted.
+export function getEncryptionKey(sourceDir: string, providedKey?: string): string | null {
+  if (providedKey) {
+    return providedKey;
+  }
+
+  // Try to read the key from Signal's config
+  const configPath = join(sourceDir, "config.json");
+  if (!existsSync(configPath)) {
+    return null;
+  }
+
+  let config: { key?: string; encryptedKey?: string; safeStorageBackend?: string };
+  try {
+    config = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch {
+    // Config file may not be readable
+    return null;
+  }
+
+  if (config.key) {
+    return config.key;
+  }
+  if (config.encryptedKey) {
+    return decryptEncryptedKey(config.encryptedKey, {
+      backendHint: config.safeStorageBackend,
+    });
+  }
+
+  return null;
+}
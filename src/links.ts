@@ -0,0 +1,125 @@
+// Links shared in messages.
+//
+// When a message with a link is sent, Signal fetches a preview of the page and
+// stores it in the message JSON's `preview` array: the URL, page title,
+// description and publication date. Links sent without a preview (previews
+// turned off, or the page couldn't be fetched) are only found in the text.
+
+export interface LinkPreview {
+  url: string;
+  domain: string | null;
+  title: string | null;
+  description: string | null;
+  // Publication date of the page, if it gave one
+  date: string | null;
+}
+
+export interface LinkShare {
+  messageId: string;
+  chatId: string;
+  chatName: string | null;
+  sender: string;
+  date: string;
+}
+
+export interface SharedLink {
+  url: string;
+  // From the first preview found for the link, if any
+  title: string | null;
+  description: string | null;
+  shareCount: number;
+  firstShared: string;
+  lastShared: string;
+  // Newest first
+  shares: LinkShare[];
+}
+
+export interface LinkDomain {
+  domain: string;
+  linkCount: number;
+  links: SharedLink[];
+}
+
+// http(s) URLs and bare www. addresses, up to whitespace or markup
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"]+|\bwww\.[^\s<>"]+/gi;
+
+// Punctuation that usually ends the sentence around a URL rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?'"*_~|`\]]+$/;
+
+// Normalize a URL so the same link shared twice is recognised: the host is
+// lower-cased and a bare www. address gets https://. Null if it isn't a
+// usable web address.
+export function normalizeUrl(raw: string): string | null {
+  const text = /^www\./i.test(raw) ? `https://${raw}` : raw;
+  try {
+    const url = new URL(text);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// "https://www.example.com/a" → "example.com"
+export function linkDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "") || null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether `domain` is `filter` or one of its subdomains
+export function matchesDomain(domain: string, filter: string): boolean {
+  const wanted = filter.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, "");
+  return domain === wanted || domain.endsWith(`.${wanted}`);
+}
+
+// The URLs in a message's text, in order of appearance
+export function extractUrls(text: string): string[] {
+  const urls: string[] = [];
+  for (const match of text.match(URL_PATTERN) ?? []) {
+    let candidate = match.replace(TRAILING_PUNCTUATION, "");
+    // Keep a closing parenthesis only if the URL opened one, as Wikipedia
+    // links do; otherwise it closes the text around the URL
+    while (candidate.endsWith(")") && candidate.split("(").length < candidate.split(")").length) {
+      candidate = candidate.slice(0, -1).replace(TRAILING_PUNCTUATION, "");
+    }
+    const url = normalizeUrl(candidate);
+    if (url && !urls.includes(url)) {
+      urls.push(url);
+    }
+  }
+  return urls;
+}
+
+export function parseLinkPreviews(raw: unknown): LinkPreview[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter((preview) => typeof preview?.url === "string")
+    .map((preview): LinkPreview => {
+      const url = normalizeUrl(preview.url) ?? preview.url;
+      return {
+        url,
+        domain: linkDomain(url),
+        title: preview.title || null,
+        description: preview.description || null,
+        date: typeof preview.date === "number" && preview.date > 0 ? new Date(preview.date).toISOString() : null,
+      };
+    });
+}
+
+// Group links by domain, domains with the most links first. Links keep their
+// order within each domain.
+export function groupLinksByDomain(links: SharedLink[]): LinkDomain[] {
+  const domains = new Map<string, LinkDomain>();
+  for (const link of links) {
+    const domain = linkDomain(link.url) ?? "unknown";
+    const group = domains.get(domain) ?? { domain, linkCount: 0, links: [] };
+    group.linkCount++;
+    group.links.push(link);
+    domains.set(domain, group);
+  }
+  return Array.from(domains.values()).sort((a, b) => b.linkCount - a.linkCount);
+}
@@ -0,0 +1,398 @@
+// Rendering of tool results that carry messages. Three formats are supported:
+// pretty-printed JSON, compact JSON with empty fields left out, and a
+// plain-text transcript with one line per message. A transcript takes a
+// fraction of the space of JSON, but leaves out message ids, sender details
+// and delivery state.
+//
+// Results can also be held to a character budget (`maxChars`). They are cut at
+// a message boundary, never mid-message, and a note says how to see the rest.
+
+import { AttachmentInfo } from "./attachments.js";
+import {
+  ChatSearchResult,
+  FormattedMessage,
+  MessagePage,
+  StoryInfo,
+  UnansweredChat,
+} from "./signal-db.js";
+
+export type OutputFormat = "json" | "compact_json" | "transcript";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "compact_json", "transcript"];
+
+export interface RenderOptions {
+  format: OutputFormat;
+  // Upper bound on the length of the result, note included
+  maxChars?: number;
+}
+
+export interface RenderedOutput {
+  text: string;
+  // How to see what was left out or what comes next, if anything
+  note: string | null;
+}
+
+export interface MessageContext {
+  chatName: string | null;
+  before: FormattedMessage[];
+  message: FormattedMessage;
+  after: FormattedMessage[];
+}
+
+// Quoted messages and stories are shortened to this length in transcripts
+const MAX_QUOTE_CHARS = 80;
+
+// Leaves out nulls, empty strings and empty lists, which make up much of a
+// message's JSON
+function omitEmpty(_key: string, value: unknown): unknown {
+  if (value === null || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  return value;
+}
+
+function toJson(value: unknown, format: OutputFormat): string {
+  return format === "compact_json" ? JSON.stringify(value, omitEmpty) : JSON.stringify(value, null, 2);
+}
+
+function shorten(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > maxChars ? `${flat.slice(0, maxChars - 1)}…` : flat;
+}
+
+function attachmentName(attachment: Pick<AttachmentInfo, "fileName" | "contentType">): string {
+  return attachment.fileName || attachment.contentType || "attachment";
+}
+
+// "2024-01-15T10:30:00.000Z" → "2024-01-15 10:30" (UTC)
+function transcriptTime(date: string): string {
+  return date ? date.replace("T", " ").slice(0, 16) : "unknown time";
+}
+
+// One transcript line, e.g.
+// [2024-01-15 10:30] John Doe: [↩ Me: "Can you send the lease?"] Here's the signed copy [📎 lease.pdf] [👍 Me]
+// Link previews add their page title, e.g. "[🔗 Lease agreement template]".
+// System events read "[2024-01-15 10:30] * John Doe set disappearing messages to 1 week".
+export function transcriptLine(message: FormattedMessage): string {
+  const time = `[${transcriptTime(message.date)}]`;
+  if (message.event) {
+    return `${time} * ${message.event.description}`;
+  }
+
+  const parts: string[] = [];
+  if (message.storyReply) {
+    const story = message.storyReply;
+    const whose = story.author ? `${story.author}'s story` : "a story";
+    const about = story.text ? `: "${shorten(story.text, MAX_QUOTE_CHARS)}"` : "";
+    parts.push(story.reaction ? `[reacted ${story.reaction} to ${whose}${about}]` : `[↩ ${whose}${about}]`);
+  }
+  if (message.quote) {
+    const quoted = message.quote.text ||
+      (message.quote.attachments[0] ? attachmentName(message.quote.attachments[0]) : "");
+    parts.push(`[↩ ${message.quote.author}: "${shorten(quoted, MAX_QUOTE_CHARS)}"]`);
+  }
+  if (message.body) {
+    // Continuation lines are indented so every message still starts a line
+    parts.push(message.body.replace(/\n/g, "\n  "));
+  }
+  if (message.sticker) {
+    parts.push(`[sticker ${message.sticker}]`);
+  }
+  for (const attachment of message.attachments) {
+    const name = attachment.isVoiceNote ? "voice note" : attachmentName(attachment);
+    parts.push(attachment.caption ? `[📎 ${name}: ${attachment.caption}]` : `[📎 ${name}]`);
+  }
+  for (const preview of message.previews) {
+    if (preview.title) {
+      parts.push(`[🔗 ${preview.title}]`);
+    }
+  }
+  if (message.reactions.length > 0) {
+    const reactions = message.reactions.map((r) => (r.fromName ? `${r.emoji} ${r.fromName}` : r.emoji));
+    parts.push(`[${reactions.join(", ")}]`);
+  }
+
+  return `${time} ${message.sender}: ${parts.join(" ")}`;
+}
+
+// Transcript lines for messages from several chats, with a heading whenever
+// the chat changes
+function transcriptByChat(messages: Array<{ chatName: string | null; message: FormattedMessage }>): string {
+  const lines: string[] = [];
+  let currentChat: string | null | undefined;
+  for (const { chatName, message } of messages) {
+    if (chatName !== currentChat) {
+      if (lines.length > 0) {
+        lines.push("");
+      }
+      lines.push(`## ${chatName ?? "Unknown chat"}`);
+      currentChat = chatName;
+    }
+    lines.push(transcriptLine(message));
+  }
+  return lines.join("\n");
+}
+
+function renderedLength(output: RenderedOutput): number {
+  return output.text.length + (output.note?.length ?? 0);
+}
+
+// Render the largest number of a result's `total` messages that fits in
+// `maxChars`. `render(count, truncated)` renders the first `count` of them,
+// along with a note when some are left out.
+function fitToBudget(
+  total: number,
+  render: (count: number, truncated: boolean) => RenderedOutput,
+  maxChars: number | undefined
+): RenderedOutput {
+  const full = render(total, false);
+  if (maxChars === undefined || renderedLength(full) <= maxChars) {
+    return full;
+  }
+
+  // Rendered length grows with the number of messages, so search for the
+  // largest count that fits. If not even one message fits, return none.
+  let low = 0;
+  let high = total - 1;
+  while (low < high) {
+    const count = Math.ceil((low + high) / 2);
+    if (renderedLength(render(count, true)) <= maxChars) {
+      low = count;
+    } else {
+      high = count - 1;
+    }
+  }
+  return render(low, true);
+}
+
+function truncationNote(shown: number, total: number): string {
+  return `Showing ${shown} of ${total} messages to stay within max_chars.`;
+}
+
+// A page of a chat's messages. When the budget cuts the page short, the next
+// cursor continues from the last message shown (see
+// SignalDatabase.getMessageCursor).
+export function renderMessagePage(
+  page: MessagePage,
+  options: RenderOptions,
+  cursorAfter: (message: FormattedMessage) => string
+): RenderedOutput {
+  return fitToBudget(
+    page.messages.length,
+    (count, truncated) => {
+      const messages = page.messages.slice(0, count);
+      const last = messages[messages.length - 1];
+      const nextCursor = !truncated ? page.next_cursor : last ? cursorAfter(last) : null;
+      const hasMore = truncated || page.has_more;
+
+      const notes: string[] = [];
+      if (truncated) {
+        notes.push(
+          last
+            ? `${truncationNote(count, page.messages.length)} Pass cursor "${nextCursor}" to continue.`
+            : "The next message is longer than max_chars; raise max_chars to read it."
+        );
+      }
+
+      if (options.format !== "transcript") {
+        const text = toJson({ ...page, messages, next_cursor: nextCursor, has_more: hasMore }, options.format);
+        return { text, note: notes.length > 0 ? notes.join("\n") : null };
+      }
+
+      // A transcript has nowhere else to carry the cursors
+      if (!truncated && nextCursor) {
+        notes.push(`next_cursor: ${nextCursor}`);
+      }
+      if (page.prev_cursor) {
+        notes.push(`prev_cursor: ${page.prev_cursor}`);
+      }
+      return {
+        text: messages.map(transcriptLine).join("\n"),
+        note: notes.length > 0 ? notes.join("\n") : null,
+      };
+    },
+    options.maxChars
+  );
+}
+
+// A flat list of messages, such as search hits or newly arrived messages.
+// `chatOf` names the chat of each message when they come from several.
+export function renderMessages<T extends FormattedMessage>(
+  messages: T[],
+  options: RenderOptions,
+  chatOf?: (message: T) => string | null
+): RenderedOutput {
+  return fitToBudget(
+    messages.length,
+    (count, truncated) => {
+      const shown = messages.slice(0, count);
+      const note = truncated
+        ? `${truncationNote(count, messages.length)} Narrow the request or raise max_chars to see the rest.`
+        : null;
+
+      if (options.format !== "transcript") {
+        return { text: toJson(shown, options.format), note };
+      }
+      const text = chatOf
+        ? transcriptByChat(shown.map((message) => ({ chatName: chatOf(message), message })))
+        : shown.map(transcriptLine).join("\n");
+      return { text, note };
+    },
+    options.maxChars
+  );
+}
+
+// Search results grouped by chat. The budget keeps the first hits in ranking
+// order, dropping chats left without any.
+export function renderSearchResults(results: ChatSearchResult[], options: RenderOptions): RenderedOutput {
+  const total = results.reduce((sum, result) => sum + result.hits.length, 0);
+
+  return fitToBudget(
+    total,
+    (count, truncated) => {
+      let remaining = count;
+      const shown = results
+        .map((result) => {
+          const hits = result.hits.slice(0, remaining);
+          remaining -= hits.length;
+          return { ...result, hits };
+        })
+        .filter((result) => result.hits.length > 0);
+      const note = truncated
+        ? `${truncationNote(count, total)} Lower limit or per_chat_limit, narrow since/until, or raise max_chars to see the rest.`
+        : null;
+
+      if (options.format !== "transcript") {
+        return { text: toJson(shown, options.format), note };
+      }
+      const text = transcriptByChat(
+        shown.flatMap((result) => result.hits.map((message) => ({ chatName: result.chatName, message })))
+      );
+      return { text, note };
+    },
+    options.maxChars
+  );
+}
+
+// Read-but-unanswered messages grouped by chat. The budget keeps the most
+// recent chats first, dropping messages from the end.
+export function renderUnansweredChats(chats: UnansweredChat[], options: RenderOptions): RenderedOutput {
+  const total = chats.reduce((sum, chat) => sum + chat.messages.length, 0);
+
+  return fitToBudget(
+    total,
+    (count, truncated) => {
+      let remaining = count;
+      const shown = chats
+        .map((chat) => {
+          const messages = chat.messages.slice(0, remaining);
+          remaining -= messages.length;
+          return { ...chat, messages };
+        })
+        .filter((chat) => chat.messages.length > 0);
+      const note = truncated
+        ? `${truncationNote(count, total)} Lower limit, narrow since/until, or raise max_chars to see the rest.`
+        : null;
+
+      if (options.format !== "transcript") {
+        return { text: toJson(shown, options.format), note };
+      }
+      const text = shown
+        .map((chat) => {
+          const lastReply = chat.lastReply ? `last reply ${transcriptTime(chat.lastReply)}` : "no replies yet";
+          return [`## ${chat.chatName ?? "Unknown chat"} (${lastReply})`, ...chat.messages.map(transcriptLine)].join("\n");
+        })
+        .join("\n\n");
+      return { text, note };
+    },
+    options.maxChars
+  );
+}
+
+// One story and its replies, e.g.
+// [2024-01-15 10:30] Me → My Story: [story] Sunset at the beach [📎 beach.jpg] [viewed by 3]
+//   [2024-01-15 10:45] John Doe: [reacted ❤️ to my story]
+function storyTranscript(story: StoryInfo): string {
+  const parts = [`[story]`];
+  const content = story.text ?? story.caption;
+  if (content) {
+    parts.push(content.replace(/\n/g, "\n  "));
+  }
+  if (story.link) {
+    parts.push(`[🔗 ${story.link}]`);
+  }
+  for (const attachment of story.attachments) {
+    parts.push(`[📎 ${attachmentName(attachment)}]`);
+  }
+  if (story.views) {
+    parts.push(`[viewed by ${story.views.count}]`);
+  }
+
+  const audience = story.audience ? ` → ${story.audience}` : "";
+  const lines = [`[${transcriptTime(story.date)}] ${story.author}${audience}: ${parts.join(" ")}`];
+  for (const reply of story.replies) {
+    lines.push(`  ${transcriptLine(reply).replace(/\n/g, "\n  ")}`);
+  }
+  if (story.replies.length < story.replyCount) {
+    lines.push(`  (${story.replyCount} replies in all)`);
+  }
+  return lines.join("\n");
+}
+
+// Stories with their replies. The budget keeps the newest stories, each whole.
+export function renderStories(stories: StoryInfo[], options: RenderOptions): RenderedOutput {
+  return fitToBudget(
+    stories.length,
+    (count, truncated) => {
+      const shown = stories.slice(0, count);
+      const note = truncated
+        ? `Showing ${count} of ${stories.length} stories to stay within max_chars. Lower limit, narrow since/until, or raise max_chars to see the rest.`
+        : null;
+
+      if (options.format !== "transcript") {
+        return { text: toJson(shown, options.format), note };
+      }
+      return { text: shown.map(storyTranscript).join("\n"), note };
+    },
+    options.maxChars
+  );
+}
+
+// A message with its neighbours. The budget drops the neighbours furthest from
+// the message first; the message itself is always kept.
+export function renderMessageContext<T extends MessageContext>(context: T, options: RenderOptions): RenderedOutput {
+  // Neighbours nearest first, alternating between earlier and later ones
+  const nearest: FormattedMessage[] = [];
+  for (let i = 0; i < Math.max(context.before.length, context.after.length); i++) {
+    if (i < context.before.length) {
+      nearest.push(context.before[context.before.length - 1 - i]);
+    }
+    if (i < context.after.length) {
+      nearest.push(context.after[i]);
+    }
+  }
+
+  return fitToBudget(
+    nearest.length,
+    (count, truncated) => {
+      const kept = new Set(nearest.slice(0, count));
+      const before = context.before.filter((message) => kept.has(message));
+      const after = context.after.filter((message) => kept.has(message));
+      const note = truncated
+        ? `Showing ${count} of ${nearest.length} surrounding messages to stay within max_chars. Lower before/after or raise max_chars to see the rest.`
+        : null;
+
+      if (options.format !== "transcript") {
+        return { text: toJson({ ...context, before, after }, options.format), note };
+      }
+      const lines = [
+        `## ${context.chatName ?? "Unknown chat"}`,
+        ...before.map(transcriptLine),
+        `> ${transcriptLine(context.message)}`,
+        ...after.map(transcriptLine),
+      ];
+      return { text: lines.join("\n"), note };
+    },
+    options.maxChars
+  );
+}
@@ -0,0 +1,158 @@
+// Privacy policy: which chats the server may read, whether disappearing
+// messages are left out, and what is redacted or hidden in its output.
+//
+// The policy comes from environment variables, which the MCPB bundle fills in
+// from its user configuration. Chats are named the way `chat_name` names them
+// (display name, phone number, conversation id, service ID or group ID), but
+// names must match exactly, ignoring case and accents: a policy never applies
+// to a chat because of a partial match.
+
+import { ChatCandidate, normalizePhoneNumber } from "./chat-resolver.js";
+import { foldText } from "./search.js";
+
+export interface Redaction {
+  label: string;
+  pattern: RegExp;
+}
+
+export interface PrivacyPolicy {
+  // Only these chats can be read; null allows every chat not denied
+  allowedChats: string[] | null;
+  // These chats can never be read, even if allowed
+  deniedChats: string[];
+  // Leave out messages sent with a disappearing-message timer
+  hideDisappearing: boolean;
+  // Show text marked as a spoiler instead of hiding it
+  showSpoilers: boolean;
+  redactions: Redaction[];
+}
+
+export class PolicyError extends Error {
+  constructor(readonly chat: string) {
+    super(`Access denied by policy: "${chat}" is excluded by this server's chat access settings.`);
+    this.name = "PolicyError";
+  }
+}
+
+// Phone numbers with at least 8 digits, international or written with
+// separators. ISO dates and digits inside identifiers are never matched.
+const PHONE_NUMBER = /(?<![\w+-])(?!\d{4}-\d{2}-\d{2})(?:\+|\(\d)?\d(?:[\d ().-]*\d)?(?![\w-])/g;
+const MIN_PHONE_DIGITS = 8;
+
+const EMAIL_ADDRESS = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+
+// Fields holding identifiers rather than text; redacting inside these would
+// break follow-up calls that pass them back
+const IDENTIFIER_KEY = /^(id|.*Id|.*_cursor)$/;
+
+// Read a config value, treating unsubstituted MCPB templates like
+// ${user_config.allowed_chats} as unset
+function configValue(value: string | undefined): string | null {
+  if (!value || (value.startsWith("${") && value.includes("}"))) {
+    return null;
+  }
+  return value.trim() || null;
+}
+
+function isEnabled(value: string | undefined): boolean {
+  return ["1", "true", "yes", "on"].includes(configValue(value)?.toLowerCase() ?? "");
+}
+
+function chatList(value: string | undefined): string[] {
+  return (configValue(value) ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+// Build the policy from SIGNAL_ALLOWED_CHATS, SIGNAL_DENIED_CHATS,
+// SIGNAL_HIDE_DISAPPEARING, SIGNAL_SHOW_SPOILERS, SIGNAL_REDACT_PHONE_NUMBERS,
+// SIGNAL_REDACT_EMAILS and SIGNAL_REDACT_PATTERN. Throws if the custom pattern is not a valid
+// regular expression, so a policy is never silently weaker than configured.
+export function loadPolicy(env: NodeJS.ProcessEnv): PrivacyPolicy {
+  const allowed = chatList(env.SIGNAL_ALLOWED_CHATS);
+  const redactions: Redaction[] = [];
+
+  if (isEnabled(env.SIGNAL_REDACT_PHONE_NUMBERS)) {
+    redactions.push({ label: "phone number", pattern: PHONE_NUMBER });
+  }
+  if (isEnabled(env.SIGNAL_REDACT_EMAILS)) {
+    redactions.push({ label: "email", pattern: EMAIL_ADDRESS });
+  }
+  const custom = configValue(env.SIGNAL_REDACT_PATTERN);
+  if (custom) {
+    try {
+      redactions.push({ label: "redacted", pattern: new RegExp(custom, "gu") });
+    } catch (error) {
+      throw new Error(
+        `SIGNAL_REDACT_PATTERN is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return {
+    allowedChats: allowed.length > 0 ? allowed : null,
+    deniedChats: chatList(env.SIGNAL_DENIED_CHATS),
+    hideDisappearing: isEnabled(env.SIGNAL_HIDE_DISAPPEARING),
+    showSpoilers: isEnabled(env.SIGNAL_SHOW_SPOILERS),
+    redactions,
+  };
+}
+
+// Whether the policy restricts which chats can be read at all
+export function restrictsChats(policy: PrivacyPolicy): boolean {
+  return policy.allowedChats !== null || policy.deniedChats.length > 0;
+}
+
+function matchesEntry(chat: ChatCandidate, entry: string): boolean {
+  if (entry === chat.id || entry === chat.serviceId || entry === chat.groupId) {
+    return true;
+  }
+  const number = normalizePhoneNumber(entry);
+  if (number && number === chat.number) {
+    return true;
+  }
+  const folded = foldText(entry);
+  return chat.aliases.some((alias) => foldText(alias) === folded);
+}
+
+export function isChatAllowed(policy: PrivacyPolicy, chat: ChatCandidate): boolean {
+  if (policy.allowedChats && !policy.allowedChats.some((entry) => matchesEntry(chat, entry))) {
+    return false;
+  }
+  return !policy.deniedChats.some((entry) => matchesEntry(chat, entry));
+}
+
+export function redactText(policy: PrivacyPolicy, text: string): string {
+  return policy.redactions.reduce(
+    (result, { label, pattern }) =>
+      result.replace(pattern, (match) =>
+        pattern === PHONE_NUMBER && match.replace(/\D/g, "").length < MIN_PHONE_DIGITS
+          ? match
+          : `[${label}]`
+      ),
+    text
+  );
+}
+
+// Redact every string in a tool result, leaving identifiers intact
+export function redactValue<T>(policy: PrivacyPolicy, value: T): T {
+  if (policy.redactions.length === 0) {
+    return value;
+  }
+  const redact = (item: unknown, key: string): unknown => {
+    if (typeof item === "string") {
+      return IDENTIFIER_KEY.test(key) ? item : redactText(policy, item);
+    }
+    if (Array.isArray(item)) {
+      return item.map((entry) => redact(entry, key));
+    }
+    if (item && typeof item === "object" && !Buffer.isBuffer(item)) {
+      // Errors carrying structured details serialize through toJSON
+      const source = typeof (item as any).toJSON === "function" ? (item as any).toJSON() : item;
+      return Object.fromEntries(Object.entries(source).map(([k, v]) => [k, redact(v, k)]));
+    }
+    return item;
+  };
+  return redact(value, "") as T;
+}
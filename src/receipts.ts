@@ -0,0 +1,76 @@
+// Delivery state of outgoing messages.
+//
+// Signal tracks each recipient of a message we sent separately, in the
+// message JSON's `sendStateByConversationId`: a map from the recipient's
+// conversation id to `{ status, updatedAt }`. The status only moves forward
+// (Pending → Sent → Delivered → Read → Viewed), except that it can become
+// Failed. The map also has an entry for our own conversation, which tracks
+// the sync to our other devices rather than a recipient.
+
+export type DeliveryStatus = "pending" | "sent" | "delivered" | "read" | "viewed" | "failed";
+
+export interface RecipientDelivery {
+  conversationId: string;
+  name: string | null;
+  status: DeliveryStatus;
+  updatedAt: string | null;
+}
+
+export interface DeliveryInfo {
+  // The furthest any recipient has got, or "failed" if sending failed for
+  // every recipient; as Signal shows it under the message
+  status: DeliveryStatus;
+  recipients: RecipientDelivery[];
+}
+
+// Order of the successful states, least to most advanced
+const PROGRESS: DeliveryStatus[] = ["pending", "sent", "delivered", "read", "viewed"];
+
+const STATUSES: Record<string, DeliveryStatus> = {
+  Pending: "pending",
+  Sent: "sent",
+  Delivered: "delivered",
+  Read: "read",
+  Viewed: "viewed",
+  Failed: "failed",
+};
+
+export function hasBeenRead(delivery: DeliveryInfo | null): boolean {
+  return !!delivery && (delivery.status === "read" || delivery.status === "viewed");
+}
+
+// Parse `sendStateByConversationId`. Returns null if the message has no
+// delivery state (e.g. messages sent before Signal tracked it).
+export function parseDeliveryState(
+  sendState: unknown,
+  selfConversationId: string | null,
+  nameFor: (conversationId: string) => string | null
+): DeliveryInfo | null {
+  if (!sendState || typeof sendState !== "object") {
+    return null;
+  }
+
+  const recipients = Object.entries(sendState as Record<string, any>)
+    .filter(([conversationId]) => conversationId !== selfConversationId)
+    .map(([conversationId, state]): RecipientDelivery => ({
+      conversationId,
+      name: nameFor(conversationId),
+      status: STATUSES[state?.status] ?? "pending",
+      updatedAt: typeof state?.updatedAt === "number" ? new Date(state.updatedAt).toISOString() : null,
+    }));
+
+  if (recipients.length === 0) {
+    // Note to Self: the only "recipient" is our own conversation
+    return null;
+  }
+
+  const successful = recipients.filter((r) => r.status !== "failed");
+  const status = successful.length === 0
+    ? "failed"
+    : successful.reduce<DeliveryStatus>(
+        (best, r) => (PROGRESS.indexOf(r.status) > PROGRESS.indexOf(best) ? r.status : best),
+        "pending"
+      );
+
+  return { status, recipients };
+}
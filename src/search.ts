@@ -0,0 +1,144 @@
+// Helpers for turning free-form user search input into safe SQLite queries.
+//
+// Signal Desktop keeps an FTS5 index (`messages_fts`) over message bodies. Its
+// tokenizer folds case and diacritics, so the index gives us ranked, word-aware
+// matching for free. User input is never passed to MATCH verbatim: every term
+// is re-quoted so stray FTS syntax characters can't produce a malformed query.
+
+const OPERATORS = new Set(["AND", "OR", "NOT"]);
+
+export interface SearchTerm {
+  text: string;
+  prefix: boolean;
+  phrase: boolean;
+}
+
+export type SearchToken =
+  | { kind: "term"; term: SearchTerm }
+  | { kind: "operator"; operator: "AND" | "OR" | "NOT" };
+
+// Split a query into quoted phrases, bare words (optionally ending in * for a
+// prefix match) and the upper-case boolean operators AND, OR and NOT.
+export function tokenizeQuery(query: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  const pattern = /"([^"]*)"(\*)?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const text = match[1].trim();
+      if (text) {
+        tokens.push({ kind: "term", term: { text, prefix: !!match[2], phrase: true } });
+      }
+      continue;
+    }
+
+    const word = match[3];
+    if (OPERATORS.has(word)) {
+      tokens.push({ kind: "operator", operator: word as "AND" | "OR" | "NOT" });
+      continue;
+    }
+
+    const prefix = word.length > 1 && word.endsWith("*");
+    // Drop characters that carry meaning in FTS5 syntax; they never appear
+    // inside tokens produced by the index anyway.
+    const text = word.replace(/["*():^{}+\-]/g, " ").trim();
+    if (text) {
+      tokens.push({ kind: "term", term: { text, prefix, phrase: false } });
+    }
+  }
+
+  return tokens;
+}
+
+// Build an FTS5 MATCH expression from user input, or null if nothing
+// searchable remains. Operators are only kept where FTS5 accepts them: between
+// two terms. Adjacent terms are implicitly ANDed.
+export function buildFtsQuery(query: string): string | null {
+  const parts: string[] = [];
+  let pendingOperator: string | null = null;
+
+  for (const token of tokenizeQuery(query)) {
+    if (token.kind === "operator") {
+      if (parts.length > 0) {
+        pendingOperator = token.operator;
+      }
+      continue;
+    }
+
+    const { text, prefix } = token.term;
+    const quoted = `"${text.replace(/"/g, '""')}"${prefix ? "*" : ""}`;
+    if (parts.length > 0) {
+      parts.push(pendingOperator ?? "AND");
+    }
+    parts.push(quoted);
+    pendingOperator = null;
+  }
+
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+// The plain terms of a query, ignoring operators. Used by the LIKE fallback
+// and for highlighting.
+export function queryTerms(query: string): string[] {
+  return tokenizeQuery(query)
+    .filter((t): t is Extract<SearchToken, { kind: "term" }> => t.kind === "term")
+    .map((t) => t.term.text);
+}
+
+// Lower-case and strip combining marks so "Café" and "cafe" compare equal.
+export function foldText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+// Escape LIKE wildcards so user input is matched literally (use with ESCAPE '\').
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Build a short excerpt of `body` around the first match of `query`, with the
+// match wrapped in ** so it stands out in Markdown-rendering clients. Matching
+// is case- and diacritic-insensitive, like the search itself.
+export function highlightSnippet(body: string, query: string, context = 40): string {
+  // Fold character by character so positions in the folded text map straight
+  // back to positions in the original body
+  const offsets: number[] = [];
+  let folded = "";
+  for (let i = 0; i < body.length; i++) {
+    const f = foldText(body[i]);
+    for (let j = 0; j < f.length; j++) {
+      offsets.push(i);
+    }
+    folded += f;
+  }
+  offsets.push(body.length);
+
+  let index = -1;
+  let length = 0;
+  for (const term of [query, ...queryTerms(query)]) {
+    const foldedTerm = foldText(term);
+    const found = foldedTerm ? folded.indexOf(foldedTerm) : -1;
+    if (found !== -1) {
+      index = offsets[found];
+      length = offsets[found + foldedTerm.length] - index;
+      break;
+    }
+  }
+
+  if (index === -1) {
+    return body.length > context * 2 ? body.slice(0, context * 2) + "…" : body;
+  }
+
+  const start = Math.max(0, index - context);
+  const end = Math.min(body.length, index + length + context);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < body.length ? "…" : "";
+
+  return (
+    prefix +
+    body.slice(start, index) +
+    "**" + body.slice(index, index + length) + "**" +
+    body.slice(index + length, end) +
+    suffix
+  );
+}
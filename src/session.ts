@@ -0,0 +1,92 @@
+// A database session that lives as long as the server.
+//
+// Opening Signal's database means deriving its key, which on macOS goes
+// through the Keychain. Rather than doing that on every request, the server
+// keeps one SignalDatabase open and watches the `sql/` directory: when
+// `db.sqlite` or its WAL changes, the connection is reopened on next use (the
+// key is cached by SignalDatabase) and a "change" event is emitted so
+// subscribers can look for new messages.
+
+import { EventEmitter } from "events";
+import { FSWatcher, watch } from "fs";
+import { basename, dirname } from "path";
+import { SignalDatabase } from "./signal-db.js";
+
+export class SignalSession extends EventEmitter {
+  private db: SignalDatabase | null = null;
+  private watcher: FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private stale = false;
+
+  constructor(
+    private createDatabase: () => SignalDatabase,
+    private debounceMs = 1000
+  ) {
+    super();
+  }
+
+  database(): SignalDatabase {
+    if (!this.db) {
+      this.db = this.createDatabase();
+      this.startWatching(this.db.databasePath);
+    } else if (this.stale) {
+      // Closing is enough: SignalDatabase reopens lazily on the next query
+      this.db.close();
+    }
+    this.stale = false;
+    return this.db;
+  }
+
+  close(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+    if (this.db) {
+      this.db.dispose();
+      this.db = null;
+    }
+  }
+
+  private startWatching(databasePath: string): void {
+    const dbFile = basename(databasePath);
+    const watchedFiles = new Set([dbFile, `${dbFile}-wal`]);
+
+    try {
+      this.watcher = watch(dirname(databasePath), (_event, filename) => {
+        // Some platforms don't report the file name; treat that as a change
+        if (filename && !watchedFiles.has(filename.toString())) {
+          return;
+        }
+        this.scheduleChange();
+      });
+      this.watcher.on("error", (error) => {
+        this.emit("watchError", error);
+        this.watcher?.close();
+        this.watcher = null;
+      });
+      // Don't keep the process alive just for the watcher
+      this.watcher.unref();
+    } catch (error) {
+      // Without a watcher the session still works, it just never refreshes
+      this.emit("watchError", error);
+    }
+  }
+
+  // Signal writes in bursts, so coalesce changes before reacting to them
+  private scheduleChange(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.stale = true;
+      this.emit("change");
+    }, this.debounceMs);
+    this.debounceTimer.unref();
+  }
+}
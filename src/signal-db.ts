@@ -1,9 +1,55 @@
 import Database from "@signalapp/better-sqlite3";
 import { homedir, platform } from "os";
 import { join } from "path";
-import { existsSync, readFileSync } from "fs";
-import { execSync } from "child_process";
-import { pbkdf2Sync, createDecipheriv } from "crypto";
+import { existsSync } from "fs";
+import {
+  AttachmentInfo,
+  RawAttachment,
+  parseAttachments,
+  readAttachmentFile,
+} from "./attachments.js";
+import { parseBodyRanges, renderBodyRanges } from "./body-ranges.js";
+import { ChatCandidate, resolveChatCandidate } from "./chat-resolver.js";
+import {
+  GroupChange,
+  GroupDetails,
+  MemberIdentity,
+  ResolveMember,
+  describeGroupChange,
+  parseGroupDetails,
+} from "./groups.js";
+import { getEncryptionKey } from "./key-providers.js";
+import {
+  LinkDomain,
+  LinkPreview,
+  SharedLink,
+  extractUrls,
+  groupLinksByDomain,
+  linkDomain,
+  matchesDomain,
+  parseLinkPreviews,
+} from "./links.js";
+import { PolicyError, PrivacyPolicy, isChatAllowed, loadPolicy, restrictsChats } from "./policy.js";
+import { DeliveryInfo, hasBeenRead, parseDeliveryState } from "./receipts.js";
+import { DatabaseSnapshot } from "./snapshot.js";
+import {
+  buildFtsQuery,
+  escapeLikePattern,
+  foldText,
+  highlightSnippet,
+  queryTerms,
+} from "./search.js";
+import {
+  CallRecord,
+  CallsHistoryRow,
+  EventContext,
+  MessageKind,
+  SystemEvent,
+  USER_MESSAGE_TYPES,
+  classifyMessageType,
+  describeSystemEvent,
+  parseCallRecord,
+} from "./system-events.js";
 
 export interface Contact {
   id: string;
@@ -31,21 +77,268 @@ export interface Message {
 export interface Reaction {
   emoji: string;
   fromId: string;
+  fromName?: string | null;
   timestamp: number;
 }
 
+export interface LastMessage {
+  id: string;
+  date: string;
+  sender: string;
+  // The start of the message text, or what was sent instead of text
+  preview: string;
+}
+
 export interface ChatInfo extends Contact {
   totalMessages: number;
+  unreadCount: number;
+  // Marked as unread by hand in Signal
+  markedUnread: boolean;
+  // When the chat was last active; Signal orders its chat list by this
+  activeAt: string | null;
+  // The latest message, not counting system events
+  lastMessage: LastMessage | null;
+  pinned: boolean;
+  archived: boolean;
+  muted: boolean;
+  // When the chat stops being muted; "forever" if it's muted until unmuted by
+  // hand, null if it isn't muted
+  mutedUntil: string | null;
+}
+
+export interface SenderInfo {
+  conversationId: string | null;
+  displayName: string | null;
+  profileName: string | null;
+  number: string | null;
+  serviceId: string | null;
+}
+
+export interface QuotedMessage {
+  // The original message, when it could be found in the conversation
+  id: string | null;
+  date: string | null;
+  author: string;
+  authorInfo: SenderInfo | null;
+  text: string;
+  attachments: Array<Pick<AttachmentInfo, "fileName" | "contentType">>;
+  found: boolean;
+}
+
+// The story a reply responds to. Stories expire after a day, so the story
+// itself may no longer be in the database; Signal keeps a little context on
+// the reply for that case.
+export interface StoryReference {
+  storyId: string | null;
+  found: boolean;
+  date: string | null;
+  author: string | null;
+  // Text of a text story, or a media story's caption
+  text: string | null;
+  // Set when the reply is an emoji reaction rather than a message
+  reaction: string | null;
 }
 
 export interface FormattedMessage {
+  id: string;
   date: string;
+  // "system" for notices Signal adds to the timeline, described by `event`
+  kind: MessageKind;
+  event: SystemEvent | null;
   sender: string;
+  senderInfo: SenderInfo | null;
   body: string;
-  quote: string;
+  quote: QuotedMessage | null;
   sticker: string;
   reactions: Reaction[];
-  attachments: string;
+  attachments: AttachmentInfo[];
+  // Previews of the links in the message
+  previews: LinkPreview[];
+  storyReply: StoryReference | null;
+  // Per-recipient delivery state, for messages we sent
+  delivery: DeliveryInfo | null;
+}
+
+export interface MessagePage {
+  messages: FormattedMessage[];
+  // Continues reading in the same order; null at the end of the chat
+  next_cursor: string | null;
+  // Goes back to the messages before this page; null at the start
+  prev_cursor: string | null;
+  has_more: boolean;
+}
+
+export interface SearchHit extends FormattedMessage {
+  snippet: string;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  chatName: string | null;
+  type: "private" | "group";
+  hits: SearchHit[];
+}
+
+export interface GroupInfo extends GroupDetails {
+  id: string;
+  groupId: string | null;
+  name: string | null;
+  memberCount: number;
+  // Membership and settings changes, oldest first
+  history: GroupChange[];
+}
+
+export interface ContactProfile extends Contact {
+  username: string | null;
+  about: string | null;
+  aboutEmoji: string | null;
+  // Whether the safety number has been verified (by scanning or comparing it)
+  verified: "default" | "verified" | "unverified";
+  blocked: boolean;
+  archived: boolean;
+  muted: boolean;
+  // When the mute ends; "forever" for an indefinite mute
+  mutedUntil: string | null;
+  // Whether our profile (name, photo) is shared with them
+  profileSharing: boolean;
+  disappearingMessagesSeconds: number | null;
+  sharedGroups: Array<{ id: string; name: string | null }>;
+  // Safety-number changes and verification changes, oldest first
+  safetyNumberHistory: Array<{
+    messageId: string;
+    date: string | null;
+    type: "keychange" | "verified-change";
+    description: string;
+  }>;
+}
+
+export interface StoryInfo {
+  id: string;
+  date: string;
+  author: string;
+  authorInfo: SenderInfo | null;
+  chatId: string;
+  // The group a group story was posted to, or the distribution list ("My
+  // Story" or a custom list) of one of our own stories
+  audience: string | null;
+  kind: "text" | "media";
+  text: string | null;
+  caption: string | null;
+  // Link shared in a text story
+  link: string | null;
+  attachments: AttachmentInfo[];
+  expiresAt: string | null;
+  // Only known for our own stories
+  views: { count: number; viewers: string[] } | null;
+  replyCount: number;
+  replies: FormattedMessage[];
+}
+
+export interface UnansweredChat {
+  chatId: string;
+  chatName: string | null;
+  type: "private" | "group";
+  // When someone last wrote in the chat, if ever
+  lastReply: string | null;
+  // Our read-but-unanswered messages, newest first
+  messages: FormattedMessage[];
+}
+
+export type StatsGranularity = "day" | "week" | "month";
+
+export const STATS_GRANULARITIES: StatsGranularity[] = ["day", "week", "month"];
+
+export interface SenderStats {
+  sender: string;
+  senderInfo: SenderInfo | null;
+  messages: number;
+  // Fraction of all messages in scope, 0-1
+  share: number;
+  attachments: number;
+}
+
+export interface ResponseLatency {
+  responder: string;
+  respondingTo: string;
+  responses: number;
+  averageSeconds: number;
+}
+
+export interface ChatStats {
+  // null when the stats cover every chat
+  chatId: string | null;
+  chatName: string | null;
+  since: string | null;
+  until: string | null;
+  totalMessages: number;
+  firstMessage: string | null;
+  lastMessage: string | null;
+  attachments: number;
+  reactions: number;
+  senders: SenderStats[];
+  activity: {
+    granularity: StatsGranularity;
+    periods: Array<{ period: string; messages: number }>;
+  };
+  // Message counts by local hour, 0-23
+  hourOfDay: number[];
+  // One row per weekday, Monday first, with counts by local hour
+  heatmap: Array<{ weekday: string; messages: number; hours: number[] }>;
+  responseLatency: ResponseLatency[];
+  // Only when covering every chat: the busiest chats
+  topChats?: Array<{ chatId: string; chatName: string | null; messages: number }>;
+}
+
+interface MessageRow {
+  id: string;
+  conversationId: string;
+  timestamp: number;
+  sentAt: number | null;
+  source: string | null;
+  sourceServiceId: string | null;
+  body: string | null;
+  json: string | null;
+  hasAttachments: number;
+  type: string;
+}
+
+interface ConversationRow {
+  id: string;
+  serviceId: string | null;
+  e164: string | null;
+  name: string | null;
+  profileName: string | null;
+  profileFullName: string | null;
+  json: string | null;
+}
+
+// Per-request cache of contact lookups. Group chats repeat the same handful of
+// senders many times over, so each one is only looked up once per call.
+interface ContactLookup {
+  byServiceId(serviceId: string): SenderInfo | null;
+  byNumber(number: string): SenderInfo | null;
+  byConversationId(conversationId: string): SenderInfo | null;
+}
+
+// Per-request state used while formatting messages: contact lookups, a
+// lookup of the messages that quotes refer to, and what system events need
+interface FormatContext extends ContactLookup, EventContext {
+  // Includes messages the privacy policy hides, flagged as `hidden`, so
+  // quotes of them can be blanked rather than shown from the quote's copy
+  findMessageBySentAt(conversationId: string, sentAt: number): Array<MessageRow & { hidden: number }>;
+  findMessageById(id: string): MessageRow | undefined;
+}
+
+export type SystemEventFilter = "include" | "exclude" | "only";
+
+export const SYSTEM_EVENT_FILTERS: SystemEventFilter[] = ["include", "exclude", "only"];
+
+interface SearchRow extends MessageRow {
+  chatType: string;
+  chatName: string | null;
+  chatProfileName: string | null;
+  chatJson: string | null;
+  snippet: string;
 }
 
 function getDefaultSignalDir(): string {
@@ -77,73 +370,161 @@ function getDefaultSignalDir(): string {
   }
 }
 
-function decryptKey(password: string, encryptedKeyHex: string): string {
-  const encryptedKey = Buffer.from(encryptedKeyHex, "hex");
-  const prefix = Buffer.from("v10");
-  if (!encryptedKey.subarray(0, 3).equals(prefix)) {
-      throw new Error("Encrypted key does not start with v10");
+// Check if a value is a valid path (not an unsubstituted template variable)
+function isValidPath(value: string | undefined): value is string {
+  if (!value) return false;
+  // Check for unsubstituted MCPB template variables like ${user_config.xxx}
+  if (value.startsWith('${') && value.includes('}')) return false;
+  return true;
+}
+
+// Read a boolean flag from config, treating unsubstituted templates as unset
+function isEnabled(value: string | undefined): boolean {
+  if (!isValidPath(value)) return false;
+  return ["1", "true", "yes", "on"].includes(value.trim().toLowerCase());
+}
+
+// Local-time period labels for activity buckets. Weeks are labelled by the
+// date of their Monday.
+const PERIOD_EXPRESSIONS: Record<StatsGranularity, string> = {
+  day: "date(ts / 1000, 'unixepoch', 'localtime')",
+  week: "date(ts / 1000, 'unixepoch', 'localtime', 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m', ts / 1000, 'unixepoch', 'localtime')",
+};
+
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// A reply more than a day after the previous message starts a new
+// conversation rather than answering it, so it doesn't count as latency
+const MAX_RESPONSE_GAP_MS = 24 * 60 * 60 * 1000;
+
+const TOP_CHATS = 10;
+
+const USER_MESSAGE_TYPE_LIST = USER_MESSAGE_TYPES.map((t) => `'${t}'`).join(", ");
+
+// Signal's id for the built-in "My Story" distribution list
+const MY_STORY_ID = "00000000-0000-0000-0000-000000000000";
+
+// Chat list previews of the latest message are cut to this length
+const MAX_PREVIEW_CHARS = 100;
+
+// The latest time a JavaScript Date can hold
+const MAX_DATE_MS = 8.64e15;
+
+// When a chat's mute ends: null if it isn't muted, "forever" if it's muted
+// until unmuted by hand, which sets a time too far off to be a date
+function muteEnd(muteExpiresAt: number): string | null {
+  if (muteExpiresAt <= Date.now()) {
+    return null;
   }
-  
-  const ciphertext = encryptedKey.subarray(3);
-  const salt = Buffer.from("saltysalt");
-  const iterations = 1003;
-  // Key length 16 bytes (128 bits)
-  const key = pbkdf2Sync(password, salt, iterations, 16, "sha1");
-  
-  const iv = Buffer.alloc(16, 0x20); // 16 spaces
-  const decipher = createDecipheriv("aes-128-cbc", key, iv);
-  
-  let decrypted = decipher.update(ciphertext);
-  decrypted = Buffer.concat([decrypted, decipher.final()]);
-  
-  return decrypted.toString("utf-8");
+  return muteExpiresAt > MAX_DATE_MS ? "forever" : new Date(muteExpiresAt).toISOString();
 }
 
-function getEncryptionKey(sourceDir: string, providedKey?: string): string | null {
-  if (providedKey) {
-    return providedKey;
+// What a story shows: text stories keep their content in a `textAttachment`,
+// media stories are a single attachment with an optional caption
+function parseStoryContent(json: any): {
+  kind: "text" | "media";
+  text: string | null;
+  caption: string | null;
+  link: string | null;
+} {
+  const attachment = Array.isArray(json.attachments) ? json.attachments[0] : undefined;
+  const textAttachment = attachment?.textAttachment;
+  if (textAttachment) {
+    return {
+      kind: "text",
+      text: textAttachment.text || null,
+      caption: null,
+      link: textAttachment.preview?.url || null,
+    };
   }
+  return { kind: "media", text: null, caption: attachment?.caption || null, link: null };
+}
 
-  // Try to read the key from Signal's config
-  const configPath = join(sourceDir, "config.json");
-  if (existsSync(configPath)) {
-    try {
-      const config = JSON.parse(readFileSync(configPath, "utf-8"));
-      if (config.key) {
-        return config.key;
-      } else if (config.encryptedKey && platform() === "darwin") {
-          try {
-             const password = execSync('security find-generic-password -ws "Signal Safe Storage"', { encoding: 'utf-8' }).trim();
-             return decryptKey(password, config.encryptedKey);
-          } catch (e) {
-             console.error("Failed to retrieve password from Keychain or decrypt key:", e);
-          }
-      }
-    } catch {
-      // Config file may not be readable or may not contain key
-    }
+// Which side of a cursor's message a page continues on, in time order
+type CursorDirection = "before" | "after";
+
+interface CursorPosition {
+  ts: number;
+  id: string;
+  direction: CursorDirection;
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON naming the chat and
+// the (sent time, id) of the message a page continues from
+function encodeCursor(
+  conversationId: string,
+  row: Pick<MessageRow, "id" | "timestamp" | "sentAt">,
+  direction: CursorDirection
+): string {
+  const payload = { c: conversationId, t: row.sentAt ?? row.timestamp, i: row.id, d: direction };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, conversationId: string): CursorPosition {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    payload = null;
+  }
+  if (
+    !payload ||
+    typeof payload.t !== "number" ||
+    typeof payload.i !== "string" ||
+    (payload.d !== "before" && payload.d !== "after")
+  ) {
+    throw new Error("Invalid cursor. Pass a next_cursor or prev_cursor value exactly as returned.");
+  }
+  if (payload.c !== conversationId) {
+    throw new Error("This cursor belongs to a different chat.");
   }
+  return { ts: payload.t, id: payload.i, direction: payload.d };
+}
 
-  return null;
+// Search snippets are cut from the stored body, so they are rebuilt from the
+// rendered body of messages with mentions or formatting
+function hitSnippet(row: SearchRow, message: FormattedMessage, query: string): string {
+  return message.body === (row.body || "") ? row.snippet : highlightSnippet(message.body, query);
 }
 
-// Check if a value is a valid path (not an unsubstituted template variable)
-function isValidPath(value: string | undefined): value is string {
-  if (!value) return false;
-  // Check for unsubstituted MCPB template variables like ${user_config.xxx}
-  if (value.startsWith('${') && value.includes('}')) return false;
-  return true;
+// SQL condition selecting messages, system events, or both
+function systemEventCondition(filter: SystemEventFilter): string {
+  switch (filter) {
+    case "exclude":
+      return `type IN (${USER_MESSAGE_TYPE_LIST})`;
+    case "only":
+      return `COALESCE(type, '') NOT IN (${USER_MESSAGE_TYPE_LIST})`;
+    default:
+      return "1 = 1";
+  }
 }
 
+// VerifiedStatus as stored on conversations
+const VERIFIED_STATES: Record<number, ContactProfile["verified"]> = {
+  0: "default",
+  1: "verified",
+  2: "unverified",
+};
+
 export class SignalDatabase {
   private db: Database.Database | null = null;
   private sourceDir: string;
   private selfServiceId: string | null = null;
+  private ftsAvailable: boolean | null = null;
+  // Kept across close() so reopening after a file change doesn't hit the
+  // Keychain (or other key store) again
+  private encKey: string | null = null;
+  private snapshot: DatabaseSnapshot | null = null;
+  private policy: PrivacyPolicy;
+  // Conversations the policy lets us read, worked out once per open
+  private allowedChatIds: Set<string> | null = null;
 
   constructor(
     sourceDir?: string,
     private password?: string,
-    private key?: string
+    private key?: string,
+    options: { snapshot?: boolean; policy?: PrivacyPolicy } = {}
   ) {
     // Handle MCPB template variables that weren't substituted (user didn't set config)
     const envSourceDir = process.env.SIGNAL_SOURCE_DIR;
@@ -151,6 +532,18 @@ export class SignalDatabase {
                               isValidPath(envSourceDir) ? envSourceDir :
                               undefined;
     this.sourceDir = resolvedSourceDir || getDefaultSignalDir();
+
+    // Snapshot mode reads a private copy so Signal Desktop can stay open
+    const snapshot = options.snapshot ?? isEnabled(process.env.SIGNAL_SNAPSHOT_MODE);
+    if (snapshot) {
+      this.snapshot = new DatabaseSnapshot(this.databasePath);
+    }
+
+    this.policy = options.policy ?? loadPolicy(process.env);
+  }
+
+  get databasePath(): string {
+    return join(this.sourceDir, "sql", "db.sqlite");
   }
 
   private open(): Database.Database {
@@ -158,7 +551,7 @@ export class SignalDatabase {
       return this.db;
     }
 
-    const dbPath = join(this.sourceDir, "sql", "db.sqlite");
+    const dbPath = this.databasePath;
     if (!existsSync(dbPath)) {
       throw new Error(`Signal database not found at: ${dbPath}`);
     }
@@ -169,7 +562,7 @@ export class SignalDatabase {
     const providedKey = isValidPath(this.key) ? this.key :
                         isValidPath(envKey) ? envKey :
                         undefined;
-    const encKey = getEncryptionKey(this.sourceDir, providedKey);
+    const encKey = this.encKey ?? getEncryptionKey(this.sourceDir, providedKey);
     if (!encKey) {
       throw new Error(
         `Could not find Signal encryption key. ` +
@@ -178,8 +571,11 @@ export class SignalDatabase {
     }
 
     try {
+      // In snapshot mode, open a private copy instead of the live file
+      const openPath = this.snapshot ? this.snapshot.refresh() : dbPath;
+
       // Open database with SQLCipher encryption using Signal's fork of better-sqlite3
-      this.db = new Database(dbPath, { readonly: true });
+      this.db = new Database(openPath, { readonly: true });
 
       // Set up SQLCipher with Signal's specific settings
       this.db.pragma(`key = "x'${encKey}'"`);
@@ -190,6 +586,7 @@ export class SignalDatabase {
 
       // Try a simple query to verify the database is accessible
       this.db.prepare("SELECT 1").get();
+      this.encKey = encKey;
 
       // Get self contact info
       this.loadSelfContact();
@@ -198,7 +595,9 @@ export class SignalDatabase {
     } catch (error) {
       throw new Error(
         `Failed to open Signal database: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Make sure Signal Desktop is closed before accessing.`
+        (this.snapshot
+          ? `The database snapshot could not be read.`
+          : `Make sure Signal Desktop is closed before accessing, or enable snapshot mode (SIGNAL_SNAPSHOT_MODE=true).`)
       );
     }
   }
@@ -213,231 +612,1119 @@ export class SignalDatabase {
 
       if (result) {
         const data = JSON.parse(result.json);
-        this.selfServiceId = data.value || null;
+        // Stored as "<aci>.<deviceId>"; messages only carry the ACI
+        this.selfServiceId = data.value ? String(data.value).replace(/\.\d+$/, "") : null;
       }
     } catch {
       // Self contact info may not be available
     }
   }
 
+  // Close the connection; the next query reopens it. A snapshot is kept, and
+  // reused on reopen unless Signal has written since it was taken.
   close(): void {
     if (this.db) {
       this.db.close();
       this.db = null;
+      this.ftsAvailable = null;
+      this.allowedChatIds = null;
     }
   }
 
+  // Close the connection and wipe the snapshot, if any
+  dispose(): void {
+    this.close();
+    this.snapshot?.dispose();
+  }
+
+  // Chats the privacy policy allows, most recently active first. `chats`
+  // narrows the list to the given conversation ids or service IDs
+  // (comma-separated), and `includeDisappearing: false` leaves out chats with
+  // a disappearing-message timer.
   listChats(options: {
     chats?: string;
     includeEmpty?: boolean;
     includeDisappearing?: boolean;
+    includeArchived?: boolean;
+    unreadOnly?: boolean;
+    pinnedOnly?: boolean;
   } = {}): ChatInfo[] {
+    const {
+      includeEmpty = false,
+      includeDisappearing = true,
+      includeArchived = true,
+      unreadOnly = false,
+      pinnedOnly = false,
+    } = options;
+    const chatIds = options.chats?.split(",").map((c) => c.trim());
+
+    return this.loadChatInfos()
+      .filter(
+        ({ chat, expireTimer }) =>
+          (includeEmpty || chat.totalMessages > 0) &&
+          (includeDisappearing || expireTimer === 0) &&
+          (includeArchived || !chat.archived) &&
+          (!unreadOnly || chat.unreadCount > 0 || chat.markedUnread) &&
+          (!pinnedOnly || chat.pinned) &&
+          (!chatIds || chatIds.includes(chat.id) || chatIds.includes(chat.serviceId))
+      )
+      .map(({ chat }) => chat);
+  }
+
+  // Every chat the privacy policy allows, or just `conversationId`, most
+  // recently active first. Message counts, unread counts and the latest
+  // message all come from one aggregate over the messages table, rather than
+  // a query per chat.
+  private loadChatInfos(conversationId?: string): Array<{ chat: ChatInfo; expireTimer: number }> {
     const db = this.open();
-    const { includeEmpty = false } = options;
 
-    // Get all conversations
-    const conversations = db
+    // Signal marks unread messages with readStatus = 1 (ReadStatus.Unread);
+    // profiles from before it was added have an `unread` flag instead
+    const unreadCondition = this.hasColumn("messages", "readStatus")
+      ? "readStatus = 1"
+      : this.hasColumn("messages", "unread") ? "unread = 1" : "0";
+
+    // With a single MAX() in the aggregate, SQLite takes the bare `last*`
+    // columns from the row holding the maximum: the latest timeline message.
+    const rows = db
       .prepare(`
         SELECT
-          id,
-          serviceId,
-          name,
-          profileName,
-          e164 as number,
-          type,
-          json
-        FROM conversations
-        WHERE type IN ('private', 'group')
+          c.id,
+          c.serviceId,
+          c.name,
+          c.profileName,
+          c.e164 as number,
+          c.type,
+          c.json,
+          c.active_at as activeAt,
+          COALESCE(s.messageCount, 0) as messageCount,
+          COALESCE(s.unreadCount, 0) as unreadCount,
+          s.lastTs,
+          s.lastId,
+          s.lastType,
+          s.lastSource,
+          s.lastSourceServiceId,
+          s.lastBody,
+          s.lastJson
+        FROM conversations c
+        LEFT JOIN (
+          SELECT
+            conversationId,
+            SUM(CASE WHEN ${this.timelineCondition()} THEN 1 ELSE 0 END) as messageCount,
+            SUM(CASE
+              WHEN type = 'incoming' AND ${this.timelineCondition()} AND ${unreadCondition} THEN 1 ELSE 0
+            END) as unreadCount,
+            MAX(CASE
+              WHEN type IN (${USER_MESSAGE_TYPE_LIST}) AND ${this.timelineCondition()}
+              THEN COALESCE(sent_at, timestamp)
+            END) as lastTs,
+            id as lastId,
+            type as lastType,
+            source as lastSource,
+            sourceServiceId as lastSourceServiceId,
+            body as lastBody,
+            json as lastJson
+          FROM messages
+          WHERE ${this.policyCondition()}
+            AND (? IS NULL OR conversationId = ?)
+          GROUP BY conversationId
+        ) s ON s.conversationId = c.id
+        WHERE c.type IN ('private', 'group')
+          AND (? IS NULL OR c.id = ?)
+        ORDER BY COALESCE(c.active_at, s.lastTs, 0) DESC
       `)
-      .all() as Array<{
+      .all(
+        conversationId ?? null,
+        conversationId ?? null,
+        conversationId ?? null,
+        conversationId ?? null
+      ) as Array<{
         id: string;
         serviceId: string | null;
         name: string | null;
         profileName: string | null;
         number: string | null;
         type: string;
-        json: string;
+        json: string | null;
+        activeAt: number | null;
+        messageCount: number;
+        unreadCount: number;
+        lastTs: number | null;
+        lastId: string | null;
+        lastType: string | null;
+        lastSource: string | null;
+        lastSourceServiceId: string | null;
+        lastBody: string | null;
+        lastJson: string | null;
       }>;
 
-    const chatInfos: ChatInfo[] = [];
-
-    for (const conv of conversations) {
-      // Count messages for this conversation
-      const countResult = db
-        .prepare("SELECT COUNT(*) as count FROM messages WHERE conversationId = ?")
-        .get(conv.id) as { count: number };
+    const contacts = this.createContactLookup();
+    const member = this.createMemberResolver(contacts);
+    const chats: Array<{ chat: ChatInfo; expireTimer: number }> = [];
 
-      const messageCount = countResult.count;
-
-      if (!includeEmpty && messageCount === 0) {
+    for (const row of rows) {
+      if (!this.isChatIdAllowed(row.id)) {
         continue;
       }
 
       // Parse additional info from JSON if available
-      let displayName = conv.name || conv.profileName;
-      if (!displayName && conv.json) {
+      let jsonData: any = {};
+      if (row.json) {
         try {
-          const jsonData = JSON.parse(conv.json);
-          displayName = jsonData.name || jsonData.profileName || jsonData.groupName;
+          jsonData = JSON.parse(row.json);
         } catch {
           // Ignore JSON parse errors
         }
       }
 
-      chatInfos.push({
-        id: conv.id,
-        serviceId: conv.serviceId || conv.id,
-        name: displayName || null,
-        number: conv.number,
-        profileName: conv.profileName,
-        type: conv.type as "private" | "group",
-        totalMessages: messageCount,
+      const displayName = row.name || row.profileName ||
+        jsonData.name || jsonData.profileName || jsonData.groupName;
+
+      let lastMessage: LastMessage | null = null;
+      if (row.lastTs !== null && row.lastId) {
+        const message: MessageRow = {
+          id: row.lastId,
+          conversationId: row.id,
+          timestamp: row.lastTs,
+          sentAt: row.lastTs,
+          source: row.lastSource,
+          sourceServiceId: row.lastSourceServiceId,
+          body: row.lastBody,
+          json: row.lastJson,
+          hasAttachments: 0,
+          type: row.lastType ?? "",
+        };
+        lastMessage = {
+          id: row.lastId,
+          date: new Date(row.lastTs).toISOString(),
+          sender: this.resolveSender(message, displayName || "Unknown", contacts).sender,
+          preview: this.previewMessage(message, member),
+        };
+      }
+
+      const muteExpiresAt = typeof jsonData.muteExpiresAt === "number" ? jsonData.muteExpiresAt : 0;
+      const muted = muteExpiresAt > Date.now();
+
+      chats.push({
+        chat: {
+          id: row.id,
+          serviceId: row.serviceId || row.id,
+          name: displayName || null,
+          number: row.number,
+          profileName: row.profileName,
+          type: row.type as "private" | "group",
+          totalMessages: row.messageCount,
+          unreadCount: row.unreadCount,
+          markedUnread: jsonData.markedUnread === true,
+          activeAt: row.activeAt ? new Date(row.activeAt).toISOString() : null,
+          lastMessage,
+          pinned: jsonData.isPinned === true,
+          archived: jsonData.isArchived === true,
+          muted,
+          mutedUntil: muteEnd(muteExpiresAt),
+        },
+        expireTimer: typeof jsonData.expireTimer === "number" ? jsonData.expireTimer : 0,
       });
     }
 
-    // Filter by chat IDs if specified
-    if (options.chats) {
-      const chatIds = options.chats.split(",").map((c) => c.trim());
-      return chatInfos.filter(
-        (c) => chatIds.includes(c.id) || chatIds.includes(c.serviceId)
-      );
+    return chats;
+  }
+
+  // The start of a message's text for a chat list, or what was sent instead
+  private previewMessage(msg: MessageRow, member: ResolveMember): string {
+    let json: any = {};
+    try {
+      json = JSON.parse(msg.json || "{}");
+    } catch {
+      // Ignore
     }
 
-    return chatInfos;
+    const text = this.renderBody(msg.body || "", json.bodyRanges, member).replace(/\s+/g, " ").trim();
+    if (text) {
+      return text.length > MAX_PREVIEW_CHARS ? `${text.slice(0, MAX_PREVIEW_CHARS - 1)}…` : text;
+    }
+    if (json.sticker) {
+      return json.sticker.emoji ? `[sticker ${json.sticker.emoji}]` : "[sticker]";
+    }
+    const [attachment] = parseAttachments(json.attachments, msg.id);
+    if (attachment) {
+      return attachment.isVoiceNote
+        ? "[voice note]"
+        : `[📎 ${attachment.fileName || attachment.contentType || "attachment"}]`;
+    }
+    return "";
   }
 
-  getChatMessages(
-    chatName: string,
-    options: {
-      limit?: number;
-      offset?: number;
-      chats?: string;
-      includeEmpty?: boolean;
-      includeDisappearing?: boolean;
-    } = {}
-  ): FormattedMessage[] {
+  // Find the conversation a user means by `chatName`: a conversation id,
+  // service ID, group ID, phone number, or (possibly partial) name. Throws a
+  // ChatResolutionError listing candidates when the name is ambiguous or
+  // doesn't match anything, and a PolicyError when the privacy policy hides
+  // the chat. Hidden chats are never offered as candidates.
+  resolveChat(chatName: string): ChatCandidate {
+    const candidates = this.loadChatCandidates();
+    if (!restrictsChats(this.policy)) {
+      return resolveChatCandidate(chatName, candidates);
+    }
+
+    const allowed = this.chatAccess();
+    try {
+      return resolveChatCandidate(chatName, candidates.filter((c) => allowed.has(c.id)));
+    } catch (error) {
+      // Say so when the chat exists but the policy hides it
+      let hidden: ChatCandidate | null = null;
+      try {
+        hidden = resolveChatCandidate(chatName, candidates);
+      } catch {
+        // Doesn't name a single chat either way
+      }
+      if (hidden && !allowed.has(hidden.id)) {
+        throw new PolicyError(chatName);
+      }
+      throw error;
+    }
+  }
+
+  private loadChatCandidates(): ChatCandidate[] {
     const db = this.open();
-    const { limit, offset = 0 } = options;
 
-    // Find the conversation by name
-    const conversation = db
+    const rows = db
       .prepare(`
-        SELECT id, name, profileName, e164, json
+        SELECT
+          id,
+          serviceId,
+          groupId,
+          e164,
+          name,
+          profileName,
+          profileFullName,
+          type,
+          active_at as activeAt,
+          json
         FROM conversations
-        WHERE name = ? OR profileName = ?
-        LIMIT 1
+        WHERE type IN ('private', 'group')
       `)
-      .get(chatName, chatName) as {
-        id: string;
-        name: string | null;
-        profileName: string | null;
-        e164: string | null;
-        json: string;
-      } | undefined;
+      .all() as Array<ConversationRow & {
+        groupId: string | null;
+        type: string;
+        activeAt: number | null;
+      }>;
 
-    if (!conversation) {
-      return [];
-    }
+    return rows.map((row): ChatCandidate => {
+      let jsonData: any = {};
+      if (row.json) {
+        try {
+          jsonData = JSON.parse(row.json);
+        } catch {
+          // Ignore
+        }
+      }
 
-    // Get contact name for display
-    let contactName = conversation.name || conversation.profileName;
-    if (!contactName && conversation.json) {
-      try {
-        const jsonData = JSON.parse(conversation.json);
-        contactName = jsonData.name || jsonData.profileName || jsonData.groupName;
-      } catch {
-        // Ignore
+      const aliases = [
+        row.name,
+        row.profileFullName,
+        row.profileName,
+        jsonData.name,
+        jsonData.groupName,
+      ].filter((a): a is string => typeof a === "string" && a.length > 0);
+
+      return {
+        id: row.id,
+        name: aliases[0] || row.e164 || null,
+        profileName: row.profileName,
+        type: row.type as "private" | "group",
+        number: row.e164,
+        serviceId: row.serviceId,
+        groupId: row.groupId,
+        activeAt: row.activeAt,
+        aliases: Array.from(new Set(aliases)),
+      };
+    });
+  }
+
+  // Look chats up by conversation id, service ID or group ID, for code that
+  // names many chats in one call. Candidates are loaded once, where
+  // resolveChat would reload every conversation for each lookup. Chats the
+  // policy hides are not found.
+  private createChatLookup(): (id: string) => ChatCandidate | null {
+    const chats = new Map<string, ChatCandidate>();
+    for (const chat of this.loadChatCandidates()) {
+      for (const key of [chat.id, chat.serviceId, chat.groupId]) {
+        if (key && !chats.has(key)) {
+          chats.set(key, chat);
+        }
       }
     }
+    return (id) => {
+      const chat = chats.get(id);
+      return chat && this.isChatIdAllowed(chat.id) ? chat : null;
+    };
+  }
+
+  // Ids of the conversations the privacy policy lets us read
+  private chatAccess(): Set<string> {
+    if (!this.allowedChatIds) {
+      this.allowedChatIds = new Set(
+        this.loadChatCandidates()
+          .filter((chat) => isChatAllowed(this.policy, chat))
+          .map((chat) => chat.id)
+      );
+    }
+    return this.allowedChatIds;
+  }
 
-    // Build query for messages
-    let query = `
-      SELECT
-        id,
-        conversationId,
-        timestamp,
-        sent_at as sentAt,
-        source,
-        sourceServiceId,
-        body,
-        json,
-        hasAttachments,
-        type
-      FROM messages
-      WHERE conversationId = ?
-      ORDER BY timestamp DESC
-    `;
+  private isChatIdAllowed(conversationId: string): boolean {
+    return !restrictsChats(this.policy) || this.chatAccess().has(conversationId);
+  }
 
-    if (limit) {
-      query += ` LIMIT ${limit} OFFSET ${offset}`;
-    } else if (offset > 0) {
-      query += ` LIMIT -1 OFFSET ${offset}`;
+  // SQL condition leaving out the messages the privacy policy hides: those in
+  // chats it doesn't allow (including chats created since the database was
+  // opened), and disappearing messages if it hides those
+  private policyCondition(alias = ""): string {
+    const conditions: string[] = [];
+    if (restrictsChats(this.policy)) {
+      const ids = Array.from(this.chatAccess(), (id) => `'${id.replace(/'/g, "''")}'`);
+      conditions.push(`${alias}conversationId IN (${ids.join(", ")})`);
+    }
+    if (this.policy.hideDisappearing) {
+      conditions.push(`COALESCE(${alias}expireTimer, 0) = 0`);
     }
+    return conditions.length > 0 ? conditions.join(" AND ") : "1 = 1";
+  }
 
-    const messages = db.prepare(query).all(conversation.id) as Array<{
-      id: string;
-      conversationId: string;
-      timestamp: number;
-      sentAt: number | null;
-      source: string | null;
-      sourceServiceId: string | null;
-      body: string | null;
-      json: string | null;
-      hasAttachments: number;
-      type: string;
-    }>;
+  // SQL condition leaving out stories and replies to them, which Signal keeps
+  // in the same table but shows apart from the chat timeline. Profiles from
+  // before stories have no storyId column.
+  private timelineCondition(alias = ""): string {
+    const notStory = `COALESCE(${alias}type, '') != 'story'`;
+    return this.hasColumn("messages", "storyId") ? `${notStory} AND ${alias}storyId IS NULL` : notStory;
+  }
 
-    return messages.map((msg) => this.formatMessage(msg, contactName || "Unknown"));
+  getChatInfo(chatName: string): ChatInfo {
+    const chat = this.resolveChat(chatName);
+    const [info] = this.loadChatInfos(chat.id);
+    if (!info) {
+      throw new Error(`Chat not found: ${chatName}`);
+    }
+    return info.chat;
   }
 
-  searchChat(
+  getMessage(messageId: string): FormattedMessage & { conversationId: string } {
+    const db = this.open();
+
+    const msg = db
+      .prepare(`
+        SELECT
+          id,
+          conversationId,
+          timestamp,
+          sent_at as sentAt,
+          source,
+          sourceServiceId,
+          body,
+          json,
+          hasAttachments,
+          type
+        FROM messages
+        WHERE id = ? AND ${this.policyCondition()}
+      `)
+      .get(messageId) as MessageRow | undefined;
+
+    if (!msg) {
+      throw new Error(`Message not found: ${messageId}`);
+    }
+
+    const chat = this.resolveChat(msg.conversationId);
+    return {
+      conversationId: msg.conversationId,
+      ...this.formatMessage(msg, chat.name || "Unknown", this.createFormatContext()),
+    };
+  }
+
+  // Messages in a chat, newest first by default. Without a limit, returns
+  // every message in range.
+  getChatMessages(
     chatName: string,
-    query: string,
     options: {
       limit?: number;
-      chats?: string;
-      includeEmpty?: boolean;
-      includeDisappearing?: boolean;
+      since?: number;
+      until?: number;
+      order?: "asc" | "desc";
+      systemEvents?: SystemEventFilter;
     } = {}
   ): FormattedMessage[] {
+    return this.getChatMessagePage(chatName, options).messages;
+  }
+
+  // One page of a chat's messages. Pages are addressed by cursors that mark a
+  // position in the chat rather than an offset, so paging stays stable while
+  // new messages arrive: pass `next_cursor` to keep reading in `order`, or
+  // `prev_cursor` to go back.
+  getChatMessagePage(
+    chatName: string,
+    options: {
+      limit?: number;
+      cursor?: string;
+      since?: number;
+      until?: number;
+      order?: "asc" | "desc";
+      systemEvents?: SystemEventFilter;
+    } = {}
+  ): MessagePage {
     const db = this.open();
-    const { limit } = options;
+    const { limit = -1, cursor, since, until, order = "desc", systemEvents = "include" } = options;
+
+    const conversation = this.resolveChat(chatName);
+    const contactName = conversation.name;
+    const position = cursor ? decodeCursor(cursor, conversation.id) : null;
+
+    // Without a cursor, start from the newest message (or the oldest, in
+    // ascending order)
+    const direction: CursorDirection = position?.direction ?? (order === "desc" ? "before" : "after");
+
+    const filters = `
+      conversationId = ?
+      AND (? IS NULL OR COALESCE(sent_at, timestamp) >= ?)
+      AND (? IS NULL OR COALESCE(sent_at, timestamp) <= ?)
+      AND ${this.timelineCondition()}
+      AND ${this.policyCondition()}
+      AND ${systemEventCondition(systemEvents)}
+    `;
+    const filterParams = [conversation.id, since ?? null, since ?? null, until ?? null, until ?? null];
 
-    // Find the conversation by name
-    const conversation = db
+    const sort = direction === "before" ? "DESC" : "ASC";
+    const rows = db
       .prepare(`
-        SELECT id, name, profileName, e164, json
-        FROM conversations
-        WHERE name = ? OR profileName = ?
-        LIMIT 1
+        SELECT
+          id,
+          conversationId,
+          timestamp,
+          sent_at as sentAt,
+          source,
+          sourceServiceId,
+          body,
+          json,
+          hasAttachments,
+          type
+        FROM messages
+        WHERE ${filters}
+          AND (? IS NULL OR (COALESCE(sent_at, timestamp), id) ${direction === "before" ? "<" : ">"} (?, ?))
+        ORDER BY COALESCE(sent_at, timestamp) ${sort}, id ${sort}
+        LIMIT ?
       `)
-      .get(chatName, chatName) as {
-        id: string;
-        name: string | null;
-        profileName: string | null;
-        e164: string | null;
-        json: string;
-      } | undefined;
+      .all(
+        ...filterParams,
+        position?.ts ?? null,
+        position?.ts ?? null,
+        position?.id ?? null,
+        limit
+      ) as MessageRow[];
 
-    if (!conversation) {
-      return [];
+    // Rows come nearest the cursor first; present them in the requested order
+    if ((direction === "before") !== (order === "desc")) {
+      rows.reverse();
     }
 
-    // Get contact name for display
-    let contactName = conversation.name || conversation.profileName;
-    if (!contactName && conversation.json) {
-      try {
-        const jsonData = JSON.parse(conversation.json);
-        contactName = jsonData.name || jsonData.profileName || jsonData.groupName;
-      } catch {
-        // Ignore
-      }
-    }
+    const hasMessages = (beyond: MessageRow, towards: CursorDirection): boolean =>
+      !!db
+        .prepare(`
+          SELECT 1 FROM messages
+          WHERE ${filters}
+            AND (COALESCE(sent_at, timestamp), id) ${towards === "before" ? "<" : ">"} (?, ?)
+          LIMIT 1
+        `)
+        .get(...filterParams, beyond.sentAt ?? beyond.timestamp, beyond.id);
 
-    // Search messages with LIKE (case-insensitive in SQLite by default for ASCII)
-    let searchQuery = `
-      SELECT
-        id,
+    const forward: CursorDirection = order === "desc" ? "before" : "after";
+    const backward: CursorDirection = order === "desc" ? "after" : "before";
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    const hasMore = !!last && hasMessages(last, forward);
+    const hasPrevious = !!first && hasMessages(first, backward);
+
+    const context = this.createFormatContext();
+    return {
+      messages: rows.map((msg) => this.formatMessage(msg, contactName || "Unknown", context)),
+      next_cursor: hasMore ? encodeCursor(conversation.id, last, forward) : null,
+      prev_cursor: hasPrevious ? encodeCursor(conversation.id, first, backward) : null,
+      has_more: hasMore,
+    };
+  }
+
+  // A cursor that continues in `order` from the given message, for when only
+  // part of a page was shown
+  getMessageCursor(messageId: string, order: "asc" | "desc" = "desc"): string {
+    const db = this.open();
+    const row = db
+      .prepare(`
+        SELECT id, conversationId, timestamp, sent_at as sentAt
+        FROM messages
+        WHERE id = ? AND ${this.policyCondition()}
+      `)
+      .get(messageId) as Pick<MessageRow, "id" | "conversationId" | "timestamp" | "sentAt"> | undefined;
+
+    if (!row) {
+      throw new Error(`Message not found: ${messageId}`);
+    }
+    return encodeCursor(row.conversationId, row, order === "desc" ? "before" : "after");
+  }
+
+  searchChat(
+    chatName: string,
+    query: string,
+    options: {
+      limit?: number;
+      since?: number;
+      until?: number;
+    } = {}
+  ): SearchHit[] {
+    const { limit, since, until } = options;
+
+    const conversation = this.resolveChat(chatName);
+    const contactName = conversation.name;
+
+    const rows = this.searchMessages(query, {
+      conversationId: conversation.id,
+      limit,
+      since,
+      until,
+    });
+
+    const context = this.createFormatContext();
+    return rows.map((row) => {
+      const message = this.formatMessage(row, contactName || "Unknown", context);
+      return { ...message, snippet: hitSnippet(row, message, query) };
+    });
+  }
+
+  searchAll(
+    query: string,
+    options: {
+      limit?: number;
+      perChatLimit?: number;
+      since?: number;
+      until?: number;
+    } = {}
+  ): ChatSearchResult[] {
+    const { limit = 50, perChatLimit = 10, since, until } = options;
+
+    const rows = this.searchMessages(query, { limit, perChatLimit, since, until });
+
+    // Group hits by conversation, keeping chats ordered by their best hit
+    const context = this.createFormatContext();
+    const results = new Map<string, ChatSearchResult>();
+    for (const row of rows) {
+      let result = results.get(row.conversationId);
+      if (!result) {
+        let chatName = row.chatName || row.chatProfileName;
+        if (!chatName && row.chatJson) {
+          try {
+            const jsonData = JSON.parse(row.chatJson);
+            chatName = jsonData.name || jsonData.profileName || jsonData.groupName;
+          } catch {
+            // Ignore
+          }
+        }
+
+        result = {
+          chatId: row.conversationId,
+          chatName: chatName || null,
+          type: row.chatType as "private" | "group",
+          hits: [],
+        };
+        results.set(row.conversationId, result);
+      }
+
+      const message = this.formatMessage(row, result.chatName || "Unknown", context);
+      result.hits.push({ ...message, snippet: hitSnippet(row, message, query) });
+    }
+
+    return Array.from(results.values());
+  }
+
+  // A message together with the messages immediately before and after it in
+  // its conversation, all in chronological order.
+  getMessageContext(
+    messageId: string,
+    options: { before?: number; after?: number } = {}
+  ): {
+    conversationId: string;
+    chatName: string | null;
+    before: FormattedMessage[];
+    message: FormattedMessage;
+    after: FormattedMessage[];
+  } {
+    const db = this.open();
+    const { before = 5, after = 5 } = options;
+
+    const target = db
+      .prepare(`
+        SELECT
+          id,
+          conversationId,
+          timestamp,
+          sent_at as sentAt,
+          source,
+          sourceServiceId,
+          body,
+          json,
+          hasAttachments,
+          type
+        FROM messages
+        WHERE id = ? AND ${this.policyCondition()}
+      `)
+      .get(messageId) as MessageRow | undefined;
+
+    if (!target) {
+      throw new Error(`Message not found: ${messageId}`);
+    }
+
+    // Neighbours in (sent time, id) order, the order pages and cursors use, so
+    // messages sent in the same millisecond are placed the same way in both
+    const neighbours = (direction: "before" | "after", count: number): MessageRow[] => {
+      const cmp = direction === "before" ? "<" : ">";
+      const sort = direction === "before" ? "DESC" : "ASC";
+      const rows = db
+        .prepare(`
+          SELECT
+            id,
+            conversationId,
+            timestamp,
+            sent_at as sentAt,
+            source,
+            sourceServiceId,
+            body,
+            json,
+            hasAttachments,
+            type
+          FROM messages
+          WHERE conversationId = ?
+            AND ${this.timelineCondition()}
+            AND ${this.policyCondition()}
+            AND (COALESCE(sent_at, timestamp) ${cmp} ?
+              OR (COALESCE(sent_at, timestamp) = ? AND id ${cmp} ?))
+          ORDER BY COALESCE(sent_at, timestamp) ${sort}, id ${sort}
+          LIMIT ?
+        `)
+        .all(
+          target.conversationId,
+          target.sentAt ?? target.timestamp,
+          target.sentAt ?? target.timestamp,
+          target.id,
+          count
+        ) as MessageRow[];
+      return direction === "before" ? rows.reverse() : rows;
+    };
+
+    const chatName = this.resolveChat(target.conversationId).name;
+    const context = this.createFormatContext();
+    const format = (row: MessageRow) => this.formatMessage(row, chatName || "Unknown", context);
+
+    return {
+      conversationId: target.conversationId,
+      chatName,
+      before: neighbours("before", before).map(format),
+      message: format(target),
+      after: neighbours("after", after).map(format),
+    };
+  }
+
+  // A marker that increases whenever a message is added, optionally scoped to
+  // one conversation. Compare markers to tell whether new messages arrived.
+  getLatestMessageMarker(conversationId?: string): number {
+    const db = this.open();
+    const row = db
+      .prepare(`
+        SELECT MAX(rowid) as marker
+        FROM messages
+        WHERE (? IS NULL OR conversationId = ?)
+          AND ${this.policyCondition()}
+      `)
+      .get(conversationId ?? null, conversationId ?? null) as { marker: number | null };
+    return row.marker ?? 0;
+  }
+
+  // Messages added after `marker` (see getLatestMessageMarker), oldest first,
+  // each labelled with the chat it belongs to.
+  getMessagesAfterMarker(
+    marker: number,
+    options: { conversationId?: string; limit?: number } = {}
+  ): Array<FormattedMessage & { conversationId: string; chatName: string | null }> {
+    const db = this.open();
+    const { conversationId, limit = 100 } = options;
+
+    const rows = db
+      .prepare(`
+        SELECT
+          m.id,
+          m.conversationId,
+          m.timestamp,
+          m.sent_at as sentAt,
+          m.source,
+          m.sourceServiceId,
+          m.body,
+          m.json,
+          m.hasAttachments,
+          m.type
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversationId
+        WHERE m.rowid > ?
+          AND c.type IN ('private', 'group')
+          AND ${this.timelineCondition("m.")}
+          AND ${this.policyCondition("m.")}
+          AND (? IS NULL OR m.conversationId = ?)
+        ORDER BY m.rowid ASC
+        LIMIT ?
+      `)
+      .all(marker, conversationId ?? null, conversationId ?? null, limit) as MessageRow[];
+
+    const context = this.createFormatContext();
+    const chatFor = this.createChatLookup();
+    return rows.map((row) => {
+      const chatName = chatFor(row.conversationId)?.name ?? null;
+      return {
+        conversationId: row.conversationId,
+        chatName,
+        ...this.formatMessage(row, chatName || "Unknown", context),
+      };
+    });
+  }
+
+  // Load one attachment of a message, decrypting it if Signal stores it
+  // encrypted at rest.
+  getAttachment(
+    messageId: string,
+    index = 0,
+    options: { maxBytes?: number } = {}
+  ): { info: AttachmentInfo; data: Buffer; conversationId: string } {
+    const db = this.open();
+    const { maxBytes = 10 * 1024 * 1024 } = options;
+
+    const row = db
+      .prepare(`SELECT conversationId, json FROM messages WHERE id = ? AND ${this.policyCondition()}`)
+      .get(messageId) as { conversationId: string; json: string | null } | undefined;
+    if (!row) {
+      throw new Error(`Message not found: ${messageId}`);
+    }
+
+    let attachments: RawAttachment[] = [];
+    if (row.json) {
+      try {
+        attachments = JSON.parse(row.json).attachments || [];
+      } catch {
+        // Ignore
+      }
+    }
+
+    const attachment = attachments[index];
+    if (!attachment) {
+      throw new Error(
+        `Message ${messageId} has ${attachments.length} attachment(s); index ${index} is out of range`
+      );
+    }
+
+    return {
+      info: parseAttachments(attachments, messageId)[index],
+      data: readAttachmentFile(this.sourceDir, attachment, maxBytes),
+      conversationId: row.conversationId,
+    };
+  }
+
+  // Everything known about a contact: profile, verification and block state,
+  // shared groups, and the history of safety-number changes.
+  getContact(chatName: string): ContactProfile {
+    const db = this.open();
+
+    const chat = this.resolveChat(chatName);
+    if (chat.type !== "private") {
+      throw new Error(`"${chat.name ?? chatName}" is a group, not a contact. Use signal_get_group_info instead.`);
+    }
+
+    const row = db
+      .prepare("SELECT json FROM conversations WHERE id = ?")
+      .get(chat.id) as { json: string | null } | undefined;
+    let jsonData: any = {};
+    if (row?.json) {
+      try {
+        jsonData = JSON.parse(row.json);
+      } catch {
+        // Ignore
+      }
+    }
+
+    // Signal keeps block lists in the items table rather than on conversations
+    const blockList = (id: string): string[] => {
+      const item = db.prepare("SELECT json FROM items WHERE id = ?").get(id) as
+        | { json: string }
+        | undefined;
+      try {
+        const value = item ? JSON.parse(item.json).value : null;
+        return Array.isArray(value) ? value : [];
+      } catch {
+        return [];
+      }
+    };
+    const blocked =
+      (!!chat.serviceId && blockList("blocked-uuids").includes(chat.serviceId)) ||
+      (!!chat.number && blockList("blocked").includes(chat.number));
+
+    const muteExpiresAt = typeof jsonData.muteExpiresAt === "number" ? jsonData.muteExpiresAt : 0;
+    const muted = muteExpiresAt > Date.now();
+
+    // Groups whose current member list includes this contact
+    const sharedGroups: ContactProfile["sharedGroups"] = [];
+    if (chat.serviceId) {
+      const groups = db
+        .prepare("SELECT id, name, profileName, json FROM conversations WHERE type = 'group'")
+        .all() as Array<{ id: string; name: string | null; profileName: string | null; json: string | null }>;
+      for (const group of groups) {
+        try {
+          const groupJson = JSON.parse(group.json || "{}");
+          const members: any[] = Array.isArray(groupJson.membersV2) ? groupJson.membersV2 : [];
+          if (this.isChatIdAllowed(group.id) && members.some((m) => (m.aci || m.uuid) === chat.serviceId)) {
+            const name = group.name || group.profileName ||
+              groupJson.name || groupJson.profileName || groupJson.groupName;
+            sharedGroups.push({ id: group.id, name: name || null });
+          }
+        } catch {
+          // Ignore
+        }
+      }
+    }
+
+    // Signal records these notices in the contact's own conversation
+    const events = db
+      .prepare(`
+        SELECT id, type, COALESCE(sent_at, timestamp) as ts, json
+        FROM messages
+        WHERE conversationId = ? AND type IN ('keychange', 'verified-change')
+          AND ${this.policyCondition()}
+        ORDER BY COALESCE(sent_at, timestamp) ASC, rowid ASC
+      `)
+      .all(chat.id) as Array<{ id: string; type: string; ts: number | null; json: string | null }>;
+
+    const contactName = chat.name || chat.number || "this contact";
+    const safetyNumberHistory = events.map((event) => {
+      let eventJson: any = {};
+      try {
+        eventJson = JSON.parse(event.json || "{}");
+      } catch {
+        // Ignore
+      }
+
+      const type = event.type as "keychange" | "verified-change";
+      let description: string;
+      if (type === "keychange") {
+        description = `Safety number with ${contactName} changed`;
+      } else {
+        const by = eventJson.local ? "You" : "Another of your devices";
+        description = eventJson.verified
+          ? `${by} marked ${contactName} as verified`
+          : `${by} marked ${contactName} as not verified`;
+      }
+
+      return {
+        messageId: event.id,
+        date: event.ts ? new Date(event.ts).toISOString() : null,
+        type,
+        description,
+      };
+    });
+
+    return {
+      id: chat.id,
+      serviceId: chat.serviceId || chat.id,
+      name: chat.name,
+      number: chat.number,
+      profileName: chat.profileName,
+      type: chat.type,
+      username: jsonData.username || null,
+      about: jsonData.about || null,
+      aboutEmoji: jsonData.aboutEmoji || null,
+      verified: VERIFIED_STATES[jsonData.verified] ?? "default",
+      blocked,
+      archived: !!jsonData.isArchived,
+      muted,
+      mutedUntil: muteEnd(muteExpiresAt),
+      profileSharing: !!jsonData.profileSharing,
+      disappearingMessagesSeconds:
+        typeof jsonData.expireTimer === "number" && jsonData.expireTimer > 0
+          ? jsonData.expireTimer
+          : null,
+      sharedGroups,
+      safetyNumberHistory,
+    };
+  }
+
+  // Members, settings and change history of a group chat.
+  getGroupInfo(chatName: string, options: { historyLimit?: number } = {}): GroupInfo {
+    const db = this.open();
+    const { historyLimit = 50 } = options;
+
+    const chat = this.resolveChat(chatName);
+    if (chat.type !== "group") {
+      throw new Error(`"${chat.name ?? chatName}" is not a group chat`);
+    }
+
+    const row = db
+      .prepare("SELECT json FROM conversations WHERE id = ?")
+      .get(chat.id) as { json: string | null } | undefined;
+    let jsonData: any = {};
+    if (row?.json) {
+      try {
+        jsonData = JSON.parse(row.json);
+      } catch {
+        // Ignore
+      }
+    }
+
+    const resolveMember = this.createMemberResolver(this.createContactLookup());
+
+    // Most recent changes, returned oldest first
+    const changes = db
+      .prepare(`
+        SELECT id, COALESCE(sent_at, timestamp) as ts, json
+        FROM messages
+        WHERE conversationId = ? AND type = 'group-v2-change'
+          AND ${this.policyCondition()}
+        ORDER BY COALESCE(sent_at, timestamp) DESC, rowid DESC
+        LIMIT ?
+      `)
+      .all(chat.id, historyLimit) as Array<{ id: string; ts: number | null; json: string | null }>;
+
+    const history = changes.reverse().map((change): GroupChange => {
+      let groupV2Change: any = null;
+      if (change.json) {
+        try {
+          groupV2Change = JSON.parse(change.json).groupV2Change ?? null;
+        } catch {
+          // Ignore
+        }
+      }
+      return {
+        messageId: change.id,
+        date: change.ts ? new Date(change.ts).toISOString() : null,
+        actor: groupV2Change?.from ? resolveMember(groupV2Change.from).name : null,
+        changes: describeGroupChange(groupV2Change, resolveMember),
+      };
+    });
+
+    const details = parseGroupDetails(jsonData, resolveMember);
+    return {
+      id: chat.id,
+      groupId: chat.groupId,
+      name: chat.name,
+      memberCount: details.members.length,
+      ...details,
+      history,
+    };
+  }
+
+  // Calls from Signal's call log, newest first, optionally limited to one chat.
+  getCallHistory(
+    options: {
+      chatName?: string;
+      since?: number;
+      until?: number;
+      limit?: number;
+      missedOnly?: boolean;
+    } = {}
+  ): CallRecord[] {
+    const db = this.open();
+    const { chatName, since, until, limit = 50, missedOnly = false } = options;
+
+    if (!this.hasTable("callsHistory")) {
+      throw new Error("This Signal database has no call log (it was added in Signal Desktop 6.x)");
+    }
+
+    // Calls are recorded against the peer's service ID, or the group ID
+    const chat = chatName ? this.resolveChat(chatName) : null;
+
+    const rows = db
+      .prepare(`
+        SELECT *
+        FROM callsHistory
+        WHERE (? IS NULL OR peerId IN (?, ?, ?))
+          AND (? IS NULL OR timestamp >= ?)
+          AND (? IS NULL OR timestamp <= ?)
+          AND (? = 0 OR status IN ('Missed', 'MissedNotificationProfile'))
+          AND status != 'Deleted'
+        ORDER BY timestamp DESC
+        LIMIT ?
+      `)
+      .all(
+        chat?.id ?? null,
+        chat?.id ?? null,
+        chat?.serviceId ?? null,
+        chat?.groupId ?? null,
+        since ?? null,
+        since ?? null,
+        until ?? null,
+        until ?? null,
+        missedOnly ? 1 : 0,
+        // Calls in chats the policy hides are dropped below, before the limit
+        restrictsChats(this.policy) ? -1 : limit
+      ) as CallsHistoryRow[];
+
+    const toCallRecord = this.createCallRecordBuilder(this.createContactLookup());
+    return rows
+      .map(toCallRecord)
+      .filter((call) => !restrictsChats(this.policy) || (!!call.chatId && this.isChatIdAllowed(call.chatId)))
+      .slice(0, limit);
+  }
+
+  // Recent stories, newest first, with their replies. `chatName` limits the
+  // list to stories by one contact or posted to one group.
+  listStories(
+    options: {
+      chatName?: string;
+      since?: number;
+      until?: number;
+      limit?: number;
+      includeReplies?: boolean;
+    } = {}
+  ): StoryInfo[] {
+    const db = this.open();
+    const { chatName, since, until, limit = 20, includeReplies = true } = options;
+
+    const chat = chatName ? this.resolveChat(chatName) : null;
+
+    const stories = db
+      .prepare(`
+        SELECT
+          id,
+          conversationId,
+          timestamp,
+          sent_at as sentAt,
+          source,
+          sourceServiceId,
+          body,
+          json,
+          hasAttachments,
+          type
+        FROM messages
+        WHERE type = 'story'
+          AND ${this.policyCondition()}
+          AND (? IS NULL OR conversationId = ? OR sourceServiceId = ?)
+          AND (? IS NULL OR COALESCE(sent_at, timestamp) >= ?)
+          AND (? IS NULL OR COALESCE(sent_at, timestamp) <= ?)
+        ORDER BY COALESCE(sent_at, timestamp) DESC
+        LIMIT ?
+      `)
+      .all(
+        chat?.id ?? null,
+        chat?.id ?? null,
+        chat?.serviceId ?? null,
+        since ?? null,
+        since ?? null,
+        until ?? null,
+        until ?? null,
+        limit
+      ) as MessageRow[];
+
+    // Replies are linked to their story by storyId, which older profiles lack
+    const findReplies = this.hasColumn("messages", "storyId") ? db.prepare(`
+      SELECT
+        id,
         conversationId,
         timestamp,
         sent_at as sentAt,
@@ -448,57 +1735,1137 @@ export class SignalDatabase {
         hasAttachments,
         type
       FROM messages
-      WHERE conversationId = ?
-        AND body LIKE ?
-      ORDER BY timestamp DESC
+      WHERE storyId = ? AND ${this.policyCondition()}
+      ORDER BY COALESCE(sent_at, timestamp) ASC
+    `) : null;
+
+    // Names of our own distribution lists, where this profile has them
+    const distributionLists = new Map<string, string>([[MY_STORY_ID, "My Story"]]);
+    if (this.hasTable("storyDistributions")) {
+      const lists = db
+        .prepare("SELECT id, name FROM storyDistributions")
+        .all() as Array<{ id: string; name: string | null }>;
+      for (const list of lists) {
+        if (list.id !== MY_STORY_ID && list.name) {
+          distributionLists.set(list.id, list.name);
+        }
+      }
+    }
+
+    const context = this.createFormatContext();
+    const chatFor = this.createChatLookup();
+    const groupName = (conversationId: string): string | null => {
+      const conversation = chatFor(conversationId);
+      return conversation?.type === "group" ? conversation.name : null;
+    };
+
+    return stories.map((story): StoryInfo => {
+      let json: any = {};
+      try {
+        json = JSON.parse(story.json || "{}");
+      } catch {
+        // Ignore
+      }
+
+      const content = parseStoryContent(json);
+      const { sender, senderInfo } = this.resolveSender(story, "Unknown", context);
+      const ts = story.sentAt || story.timestamp;
+
+      const views = sender === "Me"
+        ? Object.entries(json.sendStateByConversationId ?? {})
+            .filter(([, state]: [string, any]) => state?.status === "Viewed")
+            .map(([conversationId]) => context.byConversationId(conversationId)?.displayName ?? conversationId)
+        : null;
+
+      const expiresAt =
+        typeof json.expirationStartTimestamp === "number" && typeof json.expireTimer === "number"
+          ? new Date(json.expirationStartTimestamp + json.expireTimer * 1000).toISOString()
+          : null;
+
+      // Counted even when not returned
+      const replyRows = (findReplies?.all(story.id) ?? []) as MessageRow[];
+      return {
+        id: story.id,
+        date: ts ? new Date(ts).toISOString() : "",
+        author: sender,
+        authorInfo: senderInfo,
+        chatId: story.conversationId,
+        audience:
+          groupName(story.conversationId) ??
+          (json.storyDistributionListId ? distributionLists.get(json.storyDistributionListId) ?? null : null),
+        kind: content.kind,
+        text: content.text,
+        caption: content.caption,
+        link: content.link,
+        attachments: content.kind === "media" ? parseAttachments(json.attachments, story.id) : [],
+        expiresAt,
+        views: views ? { count: views.length, viewers: views } : null,
+        replyCount: replyRows.length,
+        replies: includeReplies
+          ? replyRows.map((reply) => this.formatMessage(reply, sender, context))
+          : [],
+      };
+    });
+  }
+
+  // Chats where our latest messages were read but nobody has written since,
+  // most recent first. Only messages sent within the time range count.
+  getUnansweredMessages(
+    options: { chatName?: string; since?: number; until?: number; limit?: number } = {}
+  ): UnansweredChat[] {
+    const db = this.open();
+    const { chatName, since, until, limit = 20 } = options;
+
+    const chat = chatName ? this.resolveChat(chatName) : null;
+
+    const rows = db
+      .prepare(`
+        SELECT
+          m.id,
+          m.conversationId,
+          m.timestamp,
+          m.sent_at as sentAt,
+          m.source,
+          m.sourceServiceId,
+          m.body,
+          m.json,
+          m.hasAttachments,
+          m.type,
+          c.type as chatType
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversationId
+        WHERE m.type = 'outgoing'
+          AND c.type IN ('private', 'group')
+          AND ${this.timelineCondition("m.")}
+          AND ${this.policyCondition("m.")}
+          AND (? IS NULL OR m.conversationId = ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) >= ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) <= ?)
+          AND NOT EXISTS (
+            SELECT 1 FROM messages r
+            WHERE r.conversationId = m.conversationId
+              AND r.type = 'incoming'
+              AND ${this.timelineCondition("r.")}
+              AND ${this.policyCondition("r.")}
+              AND COALESCE(r.sent_at, r.timestamp) > COALESCE(m.sent_at, m.timestamp)
+          )
+        ORDER BY COALESCE(m.sent_at, m.timestamp) DESC
+      `)
+      .all(
+        chat?.id ?? null,
+        chat?.id ?? null,
+        since ?? null,
+        since ?? null,
+        until ?? null,
+        until ?? null
+      ) as Array<MessageRow & { chatType: string }>;
+
+    const lastReply = db.prepare(`
+      SELECT MAX(COALESCE(sent_at, timestamp)) as ts
+      FROM messages
+      WHERE conversationId = ? AND type = 'incoming' AND ${this.timelineCondition()} AND ${this.policyCondition()}
+    `);
+
+    const context = this.createFormatContext();
+    const chatFor = this.createChatLookup();
+    const results = new Map<string, UnansweredChat>();
+    for (const row of rows) {
+      let result = results.get(row.conversationId);
+      if (!result && results.size >= limit) {
+        continue;
+      }
+
+      const chatName = chatFor(row.conversationId)?.name ?? null;
+      const message = this.formatMessage(row, chatName || "Unknown", context);
+      if (!hasBeenRead(message.delivery)) {
+        continue;
+      }
+
+      if (!result) {
+        const { ts } = lastReply.get(row.conversationId) as { ts: number | null };
+        result = {
+          chatId: row.conversationId,
+          chatName,
+          type: row.chatType as "private" | "group",
+          lastReply: ts ? new Date(ts).toISOString() : null,
+          messages: [],
+        };
+        results.set(row.conversationId, result);
+      }
+      result.messages.push(message);
+    }
+
+    return Array.from(results.values());
+  }
+
+  // Links shared in one chat or every chat, found in link previews and in the
+  // message text. Each URL is listed once with every share of it, newest
+  // first; `limit` caps the number of distinct links, most recently shared
+  // first.
+  listLinks(
+    options: { chatName?: string; since?: number; until?: number; domain?: string; limit?: number } = {}
+  ): LinkDomain[] {
+    const db = this.open();
+    const { chatName, since, until, domain, limit = 100 } = options;
+
+    const chat = chatName ? this.resolveChat(chatName) : null;
+
+    const rows = db
+      .prepare(`
+        SELECT
+          m.id,
+          m.conversationId,
+          m.timestamp,
+          m.sent_at as sentAt,
+          m.source,
+          m.sourceServiceId,
+          m.body,
+          m.json,
+          m.hasAttachments,
+          m.type
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversationId
+        WHERE m.type IN ('incoming', 'outgoing')
+          AND c.type IN ('private', 'group')
+          AND ${this.timelineCondition("m.")}
+          AND ${this.policyCondition("m.")}
+          AND (? IS NULL OR m.conversationId = ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) >= ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) <= ?)
+          AND (m.body LIKE '%http%' OR m.body LIKE '%www.%' OR m.json LIKE '%"preview":[{%')
+        ORDER BY COALESCE(m.sent_at, m.timestamp) DESC
+      `)
+      .all(
+        chat?.id ?? null,
+        chat?.id ?? null,
+        since ?? null,
+        since ?? null,
+        until ?? null,
+        until ?? null
+      ) as MessageRow[];
+
+    const contacts = this.createContactLookup();
+    const member = this.createMemberResolver(contacts);
+    const chatFor = this.createChatLookup();
+    const links = new Map<string, SharedLink>();
+    for (const row of rows) {
+      let json: any = {};
+      try {
+        json = JSON.parse(row.json || "{}");
+      } catch {
+        // Ignore
+      }
+
+      // URLs are taken from the rendered text so hidden spoilers stay hidden
+      const previews = parseLinkPreviews(json.preview);
+      const text = this.renderBody(row.body || "", json.bodyRanges, member);
+      const urls = new Set([...previews.map((p) => p.url), ...extractUrls(text)]);
+
+      const chatName = chatFor(row.conversationId)?.name ?? null;
+      const ts = row.sentAt || row.timestamp;
+      const share = {
+        messageId: row.id,
+        chatId: row.conversationId,
+        chatName,
+        sender: this.resolveSender(row, chatName || "Unknown", contacts).sender,
+        date: new Date(ts).toISOString(),
+      };
+
+      for (const url of urls) {
+        const urlDomain = linkDomain(url);
+        if (domain && !(urlDomain && matchesDomain(urlDomain, domain))) {
+          continue;
+        }
+
+        let link = links.get(url);
+        if (!link) {
+          if (links.size >= limit) {
+            continue;
+          }
+          link = {
+            url,
+            title: null,
+            description: null,
+            shareCount: 0,
+            firstShared: share.date,
+            lastShared: share.date,
+            shares: [],
+          };
+          links.set(url, link);
+        }
+
+        const preview = previews.find((p) => p.url === url);
+        link.title = link.title ?? preview?.title ?? null;
+        link.description = link.description ?? preview?.description ?? null;
+        link.shareCount++;
+        // Rows come newest first, so each share is the earliest yet
+        link.firstShared = share.date;
+        link.shares.push(share);
+      }
+    }
+
+    return groupLinksByDomain(Array.from(links.values()));
+  }
+
+  // Activity analytics for one chat, or every chat when `chatName` is omitted.
+  // Only real messages count (not system notices), and all bucketing is done
+  // in SQL in the machine's local time zone.
+  getChatStats(
+    chatName?: string,
+    options: { since?: number; until?: number; granularity?: StatsGranularity } = {}
+  ): ChatStats {
+    const db = this.open();
+    const { since, until, granularity = "month" } = options;
+    if (!(granularity in PERIOD_EXPRESSIONS)) {
+      throw new Error(`Unsupported granularity: ${granularity}. Use one of: day, week, month`);
+    }
+
+    const chat = chatName ? this.resolveChat(chatName) : null;
+
+    // Every query runs over the same scoped set of messages. Outgoing messages
+    // get an empty sender key; incoming ones are keyed by whatever identifies
+    // the sender, falling back to the (private) conversation itself.
+    const scoped = `
+      WITH scoped AS (
+        SELECT
+          m.rowid as rowid,
+          m.conversationId,
+          COALESCE(m.sent_at, m.timestamp) as ts,
+          CASE
+            WHEN m.type = 'outgoing' OR m.sourceServiceId = ? THEN ''
+            ELSE COALESCE(m.sourceServiceId, m.source, m.conversationId)
+          END as senderKey,
+          CASE WHEN json_valid(m.json)
+            THEN COALESCE(json_array_length(m.json, '$.attachments'), 0) ELSE 0 END as attachments,
+          CASE WHEN json_valid(m.json)
+            THEN COALESCE(json_array_length(m.json, '$.reactions'), 0) ELSE 0 END as reactions
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversationId
+        WHERE m.type IN ('incoming', 'outgoing')
+          AND c.type IN ('private', 'group')
+          AND ${this.timelineCondition("m.")}
+          AND ${this.policyCondition("m.")}
+          AND (? IS NULL OR m.conversationId = ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) >= ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) <= ?)
+      )
     `;
+    const params = [
+      this.selfServiceId,
+      chat?.id ?? null,
+      chat?.id ?? null,
+      since ?? null,
+      since ?? null,
+      until ?? null,
+      until ?? null,
+    ];
+    const query = <T>(sql: string, ...extra: unknown[]): T[] =>
+      db.prepare(`${scoped} ${sql}`).all(...params, ...extra) as T[];
+
+    const [totals] = query<{
+      messages: number;
+      first: number | null;
+      last: number | null;
+      attachments: number | null;
+      reactions: number | null;
+    }>(`
+      SELECT
+        COUNT(*) as messages,
+        MIN(ts) as first,
+        MAX(ts) as last,
+        SUM(attachments) as attachments,
+        SUM(reactions) as reactions
+      FROM scoped
+    `);
+
+    const senderRows = query<{ senderKey: string; messages: number; attachments: number }>(`
+      SELECT senderKey, COUNT(*) as messages, SUM(attachments) as attachments
+      FROM scoped
+      GROUP BY senderKey
+      ORDER BY messages DESC
+    `);
+
+    const periods = query<{ period: string; messages: number }>(`
+      SELECT ${PERIOD_EXPRESSIONS[granularity]} as period, COUNT(*) as messages
+      FROM scoped
+      GROUP BY period
+      ORDER BY period
+    `);
+
+    const cells = query<{ weekday: number; hour: number; messages: number }>(`
+      SELECT
+        CAST(strftime('%w', ts / 1000, 'unixepoch', 'localtime') AS INTEGER) as weekday,
+        CAST(strftime('%H', ts / 1000, 'unixepoch', 'localtime') AS INTEGER) as hour,
+        COUNT(*) as messages
+      FROM scoped
+      GROUP BY weekday, hour
+    `);
+
+    // Time from one message to the next when the next comes from someone
+    // else, within the same conversation
+    const latencyRows = query<{
+      responder: string;
+      respondingTo: string;
+      responses: number;
+      averageMs: number;
+    }>(`
+      SELECT responder, respondingTo, COUNT(*) as responses, AVG(gap) as averageMs
+      FROM (
+        SELECT
+          senderKey as responder,
+          LAG(senderKey) OVER turns as respondingTo,
+          ts - LAG(ts) OVER turns as gap
+        FROM scoped
+        WINDOW turns AS (PARTITION BY conversationId ORDER BY ts, rowid)
+      )
+      WHERE respondingTo IS NOT NULL
+        AND responder != respondingTo
+        AND gap BETWEEN 0 AND ?
+      GROUP BY responder, respondingTo
+      ORDER BY responses DESC
+    `, MAX_RESPONSE_GAP_MS);
+
+    // Sender keys are service IDs, legacy numbers or conversation ids
+    const contacts = this.createContactLookup();
+    const senderCache = new Map<string, { sender: string; senderInfo: SenderInfo | null }>();
+    const describeSender = (key: string) => {
+      let described = senderCache.get(key);
+      if (!described) {
+        if (key === "") {
+          const self = this.selfServiceId ? contacts.byServiceId(this.selfServiceId) : null;
+          described = { sender: "Me", senderInfo: self };
+        } else {
+          const info =
+            contacts.byServiceId(key) ?? contacts.byNumber(key) ?? contacts.byConversationId(key);
+          described = { sender: info?.displayName || key, senderInfo: info };
+        }
+        senderCache.set(key, described);
+      }
+      return described;
+    };
 
-    if (limit) {
-      searchQuery += ` LIMIT ${limit}`;
+    const hourOfDay = new Array<number>(24).fill(0);
+    const heatmap = WEEKDAYS.map((weekday) => ({
+      weekday,
+      messages: 0,
+      hours: new Array<number>(24).fill(0),
+    }));
+    for (const cell of cells) {
+      // strftime's %w counts from Sunday
+      const row = heatmap[(cell.weekday + 6) % 7];
+      row.hours[cell.hour] += cell.messages;
+      row.messages += cell.messages;
+      hourOfDay[cell.hour] += cell.messages;
     }
 
-    const messages = db
-      .prepare(searchQuery)
-      .all(conversation.id, `%${query}%`) as Array<{
-        id: string;
-        conversationId: string;
-        timestamp: number;
-        sentAt: number | null;
-        source: string | null;
-        sourceServiceId: string | null;
-        body: string | null;
-        json: string | null;
-        hasAttachments: number;
-        type: string;
-      }>;
+    const toIso = (ts: number | null | undefined) => (ts ? new Date(ts).toISOString() : null);
+    const total = totals?.messages ?? 0;
+
+    const stats: ChatStats = {
+      chatId: chat?.id ?? null,
+      chatName: chat?.name ?? null,
+      since: toIso(since),
+      until: toIso(until),
+      totalMessages: total,
+      firstMessage: toIso(totals?.first),
+      lastMessage: toIso(totals?.last),
+      attachments: totals?.attachments ?? 0,
+      reactions: totals?.reactions ?? 0,
+      senders: senderRows.map((row) => ({
+        ...describeSender(row.senderKey),
+        messages: row.messages,
+        share: total > 0 ? Math.round((row.messages / total) * 1000) / 1000 : 0,
+        attachments: row.attachments,
+      })),
+      activity: { granularity, periods },
+      hourOfDay,
+      heatmap,
+      responseLatency: latencyRows.map((row) => ({
+        responder: describeSender(row.responder).sender,
+        respondingTo: describeSender(row.respondingTo).sender,
+        responses: row.responses,
+        averageSeconds: Math.round(row.averageMs / 1000),
+      })),
+    };
+
+    if (!chat) {
+      const chatRows = query<{ conversationId: string; messages: number }>(`
+        SELECT conversationId, COUNT(*) as messages
+        FROM scoped
+        GROUP BY conversationId
+        ORDER BY messages DESC
+        LIMIT ?
+      `, TOP_CHATS);
+      const chatFor = this.createChatLookup();
+      stats.topChats = chatRows.map((row) => ({
+        chatId: row.conversationId,
+        chatName: chatFor(row.conversationId)?.name ?? null,
+        messages: row.messages,
+      }));
+    }
+
+    return stats;
+  }
+
+  // Whether this profile has Signal's full-text index. Older or partially
+  // migrated databases may not, in which case search falls back to LIKE.
+  private hasFtsIndex(): boolean {
+    if (this.ftsAvailable === null) {
+      this.ftsAvailable = this.hasTable("messages_fts");
+    }
+    return this.ftsAvailable;
+  }
+
+  // Tables added by later Signal versions may be missing from older profiles
+  private hasTable(name: string): boolean {
+    const db = this.open();
+    return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name);
+  }
+
+  private hasColumn(table: string, name: string): boolean {
+    const db = this.open();
+    return !!db.prepare("SELECT 1 FROM pragma_table_info(?) WHERE name = ?").get(table, name);
+  }
+
+  // Run a search over private and group conversations, optionally restricted to
+  // one conversation and capped per conversation. Results are ranked best first.
+  private searchMessages(
+    query: string,
+    options: {
+      conversationId?: string;
+      limit?: number;
+      perChatLimit?: number;
+      since?: number;
+      until?: number;
+    }
+  ): SearchRow[] {
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) {
+      return [];
+    }
+
+    let rows: SearchRow[] | null = null;
+    if (this.hasFtsIndex()) {
+      try {
+        rows = this.searchMessagesFts(ftsQuery, options);
+      } catch (error) {
+        // The index can exist but be unusable, e.g. if its tokenizer isn't
+        // available in this SQLite build
+        console.error(
+          "Full-text search failed, falling back to LIKE:",
+          error instanceof Error ? error.message : String(error)
+        );
+        this.ftsAvailable = false;
+      }
+    }
+    rows ??= this.searchMessagesLike(query, options);
+
+    // Mention matches rank after text matches, within the same limits
+    const { limit = -1, perChatLimit = -1 } = options;
+    const seen = new Set(rows.map((row) => row.id));
+    const perChat = new Map<string, number>();
+    for (const row of rows) {
+      perChat.set(row.conversationId, (perChat.get(row.conversationId) ?? 0) + 1);
+    }
+    for (const row of this.searchMentions(query, options)) {
+      if (limit >= 0 && rows.length >= limit) {
+        break;
+      }
+      const chatCount = perChat.get(row.conversationId) ?? 0;
+      if (seen.has(row.id) || (perChatLimit >= 0 && chatCount >= perChatLimit)) {
+        continue;
+      }
+      rows.push(row);
+      perChat.set(row.conversationId, chatCount + 1);
+    }
+    return rows;
+  }
+
+  // Messages mentioning someone the query names. The index only sees the
+  // placeholder a mention leaves in the body, so these are found by the
+  // mentioned contact's service ID and then checked against the rest of the
+  // query with the mention resolved, newest first. As with the LIKE fallback,
+  // every term must match and boolean operators are ignored.
+  private searchMentions(
+    query: string,
+    options: {
+      conversationId?: string;
+      since?: number;
+      until?: number;
+    }
+  ): SearchRow[] {
+    const db = this.open();
+    const { conversationId, since, until } = options;
+
+    const terms = queryTerms(query)
+      .map((term) => foldText(term.replace(/^@/, "")))
+      .filter((term) => term.length > 0);
+    const named = this.loadChatCandidates().filter(
+      (chat) =>
+        chat.type === "private" &&
+        !!chat.serviceId &&
+        chat.aliases.some((alias) => {
+          const folded = foldText(alias);
+          return terms.some((term) => term === folded || folded.split(/\s+/).includes(term));
+        })
+    );
+    if (named.length === 0) {
+      return [];
+    }
+
+    const patterns = named.flatMap((chat) => [
+      `%"mentionAci":"${chat.serviceId}"%`,
+      `%"mentionUuid":"${chat.serviceId}"%`,
+    ]);
+    const rows = db
+      .prepare(`
+        SELECT
+          m.id,
+          m.conversationId,
+          m.timestamp,
+          m.sent_at as sentAt,
+          m.source,
+          m.sourceServiceId,
+          m.body,
+          m.json,
+          m.hasAttachments,
+          m.type,
+          c.type as chatType,
+          c.name as chatName,
+          c.profileName as chatProfileName,
+          c.json as chatJson
+        FROM messages m
+        JOIN conversations c ON c.id = m.conversationId
+        WHERE c.type IN ('private', 'group')
+          AND ${this.timelineCondition("m.")}
+          AND ${this.policyCondition("m.")}
+          AND (? IS NULL OR m.conversationId = ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) >= ?)
+          AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) <= ?)
+          AND (${patterns.map(() => "m.json LIKE ?").join(" OR ")})
+        ORDER BY m.timestamp DESC
+      `)
+      .all(
+        conversationId ?? null,
+        conversationId ?? null,
+        since ?? null,
+        since ?? null,
+        until ?? null,
+        until ?? null,
+        ...patterns
+      ) as Array<Omit<SearchRow, "snippet">>;
+
+    const member = this.createMemberResolver(this.createContactLookup());
+    const matches: SearchRow[] = [];
+    for (const row of rows) {
+      let json: any = {};
+      try {
+        json = JSON.parse(row.json || "{}");
+      } catch {
+        continue;
+      }
+      const body = this.renderBody(row.body || "", json.bodyRanges, member);
+      const folded = foldText(body);
+      if (terms.every((term) => folded.includes(term))) {
+        matches.push({ ...row, snippet: highlightSnippet(body, query) });
+      }
+    }
+    return matches;
+  }
+
+  private searchMessagesFts(
+    ftsQuery: string,
+    options: {
+      conversationId?: string;
+      limit?: number;
+      perChatLimit?: number;
+      since?: number;
+      until?: number;
+    }
+  ): SearchRow[] {
+    const db = this.open();
+    const { conversationId, limit = -1, perChatLimit = -1, since, until } = options;
+
+    // Scores and snippets are computed in the innermost query, where the FTS
+    // table is in scope; the per-chat cap is applied over the ranked results.
+    const rows = db
+      .prepare(`
+        SELECT * FROM (
+          SELECT
+            *,
+            ROW_NUMBER() OVER (
+              PARTITION BY conversationId
+              ORDER BY score, timestamp DESC
+            ) as chatRank
+          FROM (
+            SELECT
+              m.id,
+              m.conversationId,
+              m.timestamp,
+              m.sent_at as sentAt,
+              m.source,
+              m.sourceServiceId,
+              m.body,
+              m.json,
+              m.hasAttachments,
+              m.type,
+              c.type as chatType,
+              c.name as chatName,
+              c.profileName as chatProfileName,
+              c.json as chatJson,
+              snippet(messages_fts, -1, '**', '**', '…', 16) as snippet,
+              bm25(messages_fts) as score
+            FROM messages_fts
+            JOIN messages m ON m.rowid = messages_fts.rowid
+            JOIN conversations c ON c.id = m.conversationId
+            WHERE messages_fts MATCH ?
+              AND c.type IN ('private', 'group')
+              AND ${this.timelineCondition("m.")}
+              AND ${this.policyCondition("m.")}
+              AND (? IS NULL OR m.conversationId = ?)
+              AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) >= ?)
+              AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) <= ?)
+          )
+        )
+        WHERE (? < 0 OR chatRank <= ?)
+        ORDER BY score, timestamp DESC
+        LIMIT ?
+      `)
+      .all(
+        ftsQuery,
+        conversationId ?? null,
+        conversationId ?? null,
+        since ?? null,
+        since ?? null,
+        until ?? null,
+        until ?? null,
+        perChatLimit,
+        perChatLimit,
+        limit
+      ) as SearchRow[];
+
+    return rows;
+  }
+
+  // Substring search used when the FTS index is unavailable. Each term must
+  // appear in the body; case and diacritics are folded by a registered SQL
+  // function, and LIKE wildcards in the input are escaped. Boolean operators
+  // and prefix markers are ignored in this mode.
+  private searchMessagesLike(
+    query: string,
+    options: {
+      conversationId?: string;
+      limit?: number;
+      perChatLimit?: number;
+      since?: number;
+      until?: number;
+    }
+  ): SearchRow[] {
+    const db = this.open();
+    const { conversationId, limit = -1, perChatLimit = -1, since, until } = options;
+
+    const terms = queryTerms(query).map(foldText).filter((t) => t.length > 0);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    db.function("signal_fold", { deterministic: true }, (text: unknown) =>
+      typeof text === "string" ? foldText(text) : null
+    );
 
-    return messages.map((msg) => this.formatMessage(msg, contactName || "Unknown"));
+    const termClauses = terms
+      .map(() => "signal_fold(m.body) LIKE ? ESCAPE '\\'")
+      .join(" AND ");
+
+    const rows = db
+      .prepare(`
+        SELECT * FROM (
+          SELECT
+            m.id,
+            m.conversationId,
+            m.timestamp,
+            m.sent_at as sentAt,
+            m.source,
+            m.sourceServiceId,
+            m.body,
+            m.json,
+            m.hasAttachments,
+            m.type,
+            c.type as chatType,
+            c.name as chatName,
+            c.profileName as chatProfileName,
+            c.json as chatJson,
+            ROW_NUMBER() OVER (
+              PARTITION BY m.conversationId
+              ORDER BY m.timestamp DESC
+            ) as chatRank
+          FROM messages m
+          JOIN conversations c ON c.id = m.conversationId
+          WHERE c.type IN ('private', 'group')
+            AND ${this.timelineCondition("m.")}
+            AND ${this.policyCondition("m.")}
+            AND (? IS NULL OR m.conversationId = ?)
+            AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) >= ?)
+            AND (? IS NULL OR COALESCE(m.sent_at, m.timestamp) <= ?)
+            AND ${termClauses}
+        )
+        WHERE (? < 0 OR chatRank <= ?)
+        ORDER BY timestamp DESC
+        LIMIT ?
+      `)
+      .all(
+        conversationId ?? null,
+        conversationId ?? null,
+        since ?? null,
+        since ?? null,
+        until ?? null,
+        until ?? null,
+        ...terms.map((t) => `%${escapeLikePattern(t)}%`),
+        perChatLimit,
+        perChatLimit,
+        limit
+      ) as Array<Omit<SearchRow, "snippet">>;
+
+    return rows.map((row) => ({
+      ...row,
+      snippet: highlightSnippet(row.body || "", query),
+    }));
+  }
+
+  private createContactLookup(): ContactLookup {
+    const db = this.open();
+
+    const toSenderInfo = (row: ConversationRow | undefined): SenderInfo | null => {
+      if (!row) {
+        return null;
+      }
+
+      let displayName = row.name || row.profileFullName || row.profileName;
+      if (!displayName && row.json) {
+        try {
+          const jsonData = JSON.parse(row.json);
+          displayName = jsonData.name || jsonData.profileFullName || jsonData.profileName;
+        } catch {
+          // Ignore
+        }
+      }
+
+      return {
+        conversationId: row.id,
+        displayName: displayName || row.e164 || null,
+        profileName: row.profileFullName || row.profileName,
+        number: row.e164,
+        serviceId: row.serviceId,
+      };
+    };
+
+    const cachedLookup = (column: "id" | "serviceId" | "e164") => {
+      const statement = db.prepare(`
+        SELECT id, serviceId, e164, name, profileName, profileFullName, json
+        FROM conversations
+        WHERE type = 'private' AND ${column} = ?
+        LIMIT 1
+      `);
+      const cache = new Map<string, SenderInfo | null>();
+
+      return (value: string): SenderInfo | null => {
+        if (!cache.has(value)) {
+          cache.set(value, toSenderInfo(statement.get(value) as ConversationRow | undefined));
+        }
+        return cache.get(value) ?? null;
+      };
+    };
+
+    return {
+      byServiceId: cachedLookup("serviceId"),
+      byNumber: cachedLookup("e164"),
+      byConversationId: cachedLookup("id"),
+    };
+  }
+
+  // Names for the service IDs in group data and system events, with our own
+  // shown as "Me"
+  private createMemberResolver(contacts: ContactLookup): ResolveMember {
+    const members = new Map<string, MemberIdentity>();
+    return (serviceId: string): MemberIdentity => {
+      let member = members.get(serviceId);
+      if (!member) {
+        const isMe = !!this.selfServiceId && serviceId === this.selfServiceId;
+        // Very old changes name members by conversation id instead
+        const info = contacts.byServiceId(serviceId) ?? contacts.byConversationId(serviceId);
+        member = {
+          name: isMe ? "Me" : info?.displayName || serviceId,
+          serviceId: info?.serviceId ?? serviceId,
+          conversationId: info?.conversationId ?? null,
+          number: info?.number ?? null,
+          isMe,
+        };
+        members.set(serviceId, member);
+      }
+      return member;
+    };
+  }
+
+  // Converts callsHistory rows to call records, naming the chat each call
+  // belongs to and whoever started it
+  private createCallRecordBuilder(contacts: ContactLookup): (row: CallsHistoryRow) => CallRecord {
+    const resolveMember = this.createMemberResolver(contacts);
+    const lookupChat = this.createChatLookup();
+    const chatFor = (peerId: string) => {
+      const chat = lookupChat(peerId);
+      return chat ? { id: chat.id, name: chat.name } : null;
+    };
+
+    return (row) => {
+      const chat = row.peerId ? chatFor(row.peerId) : null;
+      const starterId = row.startedById || row.ringerId;
+      const startedBy = starterId
+        ? resolveMember(starterId).name
+        : row.direction === "Outgoing"
+          ? "Me"
+          : row.mode === "Direct"
+            ? chat?.name ?? null
+            : null;
+      return parseCallRecord(row, chat, startedBy);
+    };
+  }
+
+  private createFormatContext(): FormatContext {
+    const db = this.open();
+    const findBySentAt = db.prepare(`
+      SELECT
+        id,
+        conversationId,
+        timestamp,
+        sent_at as sentAt,
+        source,
+        sourceServiceId,
+        body,
+        json,
+        hasAttachments,
+        type,
+        NOT (${this.policyCondition()}) as hidden
+      FROM messages
+      WHERE conversationId = ? AND sent_at = ?
+    `);
+    const findById = db.prepare(`
+      SELECT
+        id,
+        conversationId,
+        timestamp,
+        sent_at as sentAt,
+        source,
+        sourceServiceId,
+        body,
+        json,
+        hasAttachments,
+        type
+      FROM messages
+      WHERE id = ? AND ${this.policyCondition()}
+    `);
+
+    const contacts = this.createContactLookup();
+
+    // Calls are looked up lazily: most message lists contain none
+    let findCall: ((callId: string) => CallRecord | null) | null = null;
+    const lookupCall = (callId: string): CallRecord | null => {
+      if (!findCall) {
+        if (!this.hasTable("callsHistory")) {
+          findCall = () => null;
+        } else {
+          const statement = db.prepare("SELECT * FROM callsHistory WHERE callId = ? LIMIT 1");
+          const toCallRecord = this.createCallRecordBuilder(contacts);
+          findCall = (id) => {
+            const row = statement.get(id) as CallsHistoryRow | undefined;
+            return row ? toCallRecord(row) : null;
+          };
+        }
+      }
+      return findCall(callId);
+    };
+
+    return {
+      ...contacts,
+      member: this.createMemberResolver(contacts),
+      nameForConversationId: (conversationId) =>
+        contacts.byConversationId(conversationId)?.displayName ?? null,
+      findCall: lookupCall,
+      findMessageBySentAt: (conversationId, sentAt) =>
+        findBySentAt.all(conversationId, sentAt) as Array<MessageRow & { hidden: number }>,
+      findMessageById: (id) => findById.get(id) as MessageRow | undefined,
+    };
+  }
+
+  // Resolve a quote to the message it replies to. Signal identifies the
+  // original by its sent_at timestamp and author, so match on both.
+  private resolveQuote(msg: MessageRow, quote: any, context: FormatContext): QuotedMessage {
+    const authorServiceId: string | null = quote.authorAci || quote.authorUuid || null;
+    const authorNumber: string | null = quote.author || null;
+    const isFromSelf = !!this.selfServiceId && authorServiceId === this.selfServiceId;
+
+    const authorInfo =
+      (authorServiceId ? context.byServiceId(authorServiceId) : null) ??
+      (authorNumber ? context.byNumber(authorNumber) : null);
+    const author = isFromSelf
+      ? "Me"
+      : authorInfo?.displayName || authorNumber || authorServiceId || "Unknown";
+
+    let original: (MessageRow & { hidden: number }) | undefined;
+    if (typeof quote.id === "number") {
+      const matches = context.findMessageBySentAt(msg.conversationId, quote.id);
+      original = matches.find((m) =>
+        isFromSelf
+          ? m.type === "outgoing"
+          : (!!authorServiceId && m.sourceServiceId === authorServiceId) ||
+            (!!authorNumber && m.source === authorNumber)
+      ) ?? (matches.length === 1 ? matches[0] : undefined);
+    }
+
+    // The quote keeps its own copy of the original's text, which must not
+    // reveal a message the privacy policy hides
+    if (original?.hidden) {
+      return { id: null, date: null, author, authorInfo, text: "", attachments: [], found: false };
+    }
+
+    let originalJson: any = null;
+    if (original?.json) {
+      try {
+        originalJson = JSON.parse(original.json);
+      } catch {
+        // Ignore
+      }
+    }
+
+    let attachments: QuotedMessage["attachments"] = [];
+    if (original && originalJson) {
+      attachments = parseAttachments(originalJson.attachments, original.id)
+        .map(({ fileName, contentType }) => ({ fileName, contentType }));
+    } else if (Array.isArray(quote.attachments)) {
+      attachments = quote.attachments.map((a: { fileName?: string; contentType?: string }) => ({
+        fileName: a.fileName || null,
+        contentType: a.contentType || null,
+      }));
+    }
+
+    const originalTs = original ? original.sentAt || original.timestamp : quote.id;
+    return {
+      id: original?.id ?? null,
+      date: typeof originalTs === "number" ? new Date(originalTs).toISOString() : null,
+      author,
+      authorInfo,
+      text: quote.text
+        ? this.renderBody(quote.text, quote.bodyRanges, context.member)
+        : this.renderBody(original?.body || "", originalJson?.bodyRanges, context.member),
+      attachments,
+      found: !!original,
+    };
+  }
+
+  // Resolve a story reply to the story it responds to, falling back to the
+  // context stored on the reply once the story has expired
+  private resolveStoryReply(json: any, context: FormatContext): StoryReference {
+    const storyId: string | null = json.storyId || json.storyReplyContext?.messageId || null;
+    const replyContext = json.storyReplyContext ?? {};
+    const reaction: string | null = json.storyReaction?.emoji || null;
+
+    const story = storyId ? context.findMessageById(storyId) : undefined;
+    if (story && story.type === "story") {
+      let storyJson: any = {};
+      try {
+        storyJson = JSON.parse(story.json || "{}");
+      } catch {
+        // Ignore
+      }
+      const content = parseStoryContent(storyJson);
+      const ts = story.sentAt || story.timestamp;
+      return {
+        storyId,
+        found: true,
+        date: ts ? new Date(ts).toISOString() : null,
+        author: this.resolveSender(story, "Unknown", context).sender,
+        text: content.text ?? content.caption,
+        reaction,
+      };
+    }
+
+    const authorId: string | null = replyContext.authorAci || null;
+    const attachment = replyContext.attachment;
+    return {
+      storyId,
+      found: false,
+      date: null,
+      author: authorId ? context.member(authorId).name : null,
+      text: attachment?.textAttachment?.text || attachment?.caption || null,
+      reaction,
+    };
+  }
+
+  // Work out who sent a message. Outgoing messages are always "Me"; incoming
+  // ones are resolved through sourceServiceId, or the legacy source number for
+  // messages from before service IDs existed.
+  private resolveSender(
+    msg: MessageRow,
+    contactName: string,
+    contacts: ContactLookup
+  ): { sender: string; senderInfo: SenderInfo | null } {
+    const isFromSelf = msg.type === "outgoing" ||
+                       (!!this.selfServiceId && msg.sourceServiceId === this.selfServiceId);
+    if (isFromSelf) {
+      const self = this.selfServiceId ? contacts.byServiceId(this.selfServiceId) : null;
+      return { sender: "Me", senderInfo: self };
+    }
+
+    const senderInfo =
+      (msg.sourceServiceId ? contacts.byServiceId(msg.sourceServiceId) : null) ??
+      (msg.source ? contacts.byNumber(msg.source) : null);
+
+    if (senderInfo) {
+      return { sender: senderInfo.displayName || contactName, senderInfo };
+    }
+
+    // Unknown sender (e.g. someone who has since left every shared group):
+    // report whatever identifier the message carries rather than the chat name
+    if (msg.sourceServiceId || msg.source) {
+      return {
+        sender: msg.source || msg.sourceServiceId || contactName,
+        senderInfo: {
+          conversationId: null,
+          displayName: null,
+          profileName: null,
+          number: msg.source,
+          serviceId: msg.sourceServiceId,
+        },
+      };
+    }
+
+    return { sender: contactName, senderInfo: null };
+  }
+
+  // Message text with mentions resolved to @Name and styles converted to
+  // Markdown; spoilers stay hidden unless the policy shows them
+  private renderBody(text: string, bodyRanges: unknown, member: ResolveMember): string {
+    return renderBodyRanges(text, parseBodyRanges(bodyRanges), {
+      mentionName: (serviceId, replacementText) => {
+        const identity = serviceId ? member(serviceId) : null;
+        // Prefer the name Signal stored over a bare service ID
+        if (identity && identity.name !== serviceId) {
+          return identity.name;
+        }
+        return replacementText || identity?.name || "Unknown";
+      },
+      showSpoilers: this.policy.showSpoilers,
+    });
   }
 
   private formatMessage(
-    msg: {
-      id: string;
-      conversationId: string;
-      timestamp: number;
-      sentAt: number | null;
-      source: string | null;
-      sourceServiceId: string | null;
-      body: string | null;
-      json: string | null;
-      hasAttachments: number;
-      type: string;
-    },
-    contactName: string
+    msg: MessageRow,
+    contactName: string,
+    context: FormatContext
   ): FormattedMessage {
     // Determine timestamp
     const ts = msg.sentAt || msg.timestamp;
     const date = ts ? new Date(ts).toISOString() : "";
 
-    // Determine sender
-    const isFromSelf = msg.sourceServiceId === this.selfServiceId ||
-                       msg.type === "outgoing";
-    const sender = isFromSelf ? "Me" : contactName;
-
     // Parse json
     let jsonLoaded: any = {};
     if (msg.json) {
@@ -509,16 +2876,52 @@ export class SignalDatabase {
       }
     }
 
-    // Parse reactions
+    // System events are attributed to whoever caused them, not to a sender
+    const kind = classifyMessageType(msg.type);
+    const event = kind === "system"
+      ? describeSystemEvent(msg.type, jsonLoaded, contactName, context)
+      : null;
+
+    // Determine sender
+    const { sender, senderInfo } = event
+      ? { sender: event.actor ?? "Signal", senderInfo: null }
+      : this.resolveSender(msg, contactName, context);
+
+    // Parse reactions, naming whoever reacted
     let reactions: Reaction[] = [];
-    if (jsonLoaded.reactions) {
-        reactions = jsonLoaded.reactions;
+    if (Array.isArray(jsonLoaded.reactions)) {
+        reactions = jsonLoaded.reactions.map((reaction: Reaction) => {
+          const from = reaction.fromId ? context.byConversationId(reaction.fromId) : null;
+          const isFromSelf = !!from?.serviceId && from.serviceId === this.selfServiceId;
+          return {
+            emoji: reaction.emoji,
+            fromId: reaction.fromId,
+            fromName: isFromSelf ? "Me" : from?.displayName ?? null,
+            timestamp: reaction.timestamp,
+          };
+        });
     }
 
-    // Parse quote
-    let quote = "";
+    // Parse quote, linking it to the original message where possible
+    let quote: QuotedMessage | null = null;
     if (jsonLoaded.quote) {
-        quote = jsonLoaded.quote.text || "";
+        quote = this.resolveQuote(msg, jsonLoaded.quote, context);
+    }
+
+    // Link replies to the story they respond to
+    const storyReply = jsonLoaded.storyId || jsonLoaded.storyReplyContext
+      ? this.resolveStoryReply(jsonLoaded, context)
+      : null;
+
+    // Delivery state of messages we sent, naming each recipient
+    let delivery: DeliveryInfo | null = null;
+    if (msg.type === "outgoing") {
+      const self = this.selfServiceId ? context.byServiceId(this.selfServiceId) : null;
+      delivery = parseDeliveryState(
+        jsonLoaded.sendStateByConversationId,
+        self?.conversationId ?? null,
+        (conversationId) => context.byConversationId(conversationId)?.displayName ?? null
+      );
     }
 
     // Parse sticker
@@ -528,13 +2931,20 @@ export class SignalDatabase {
     }
 
     return {
+      id: msg.id,
       date,
+      kind,
+      event,
       sender,
-      body: msg.body || "",
+      senderInfo,
+      body: this.renderBody(msg.body || "", jsonLoaded.bodyRanges, context.member),
       quote,
       sticker,
       reactions,
-      attachments: msg.hasAttachments ? "yes" : "",
+      attachments: parseAttachments(jsonLoaded.attachments, msg.id),
+      previews: parseLinkPreviews(jsonLoaded.preview),
+      storyReply,
+      delivery,
     };
   }
 }
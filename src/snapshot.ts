@@ -0,0 +1,147 @@
+// Snapshot mode: read a private copy of Signal's database instead of the live
+// file, so Signal Desktop can stay running.
+//
+// `db.sqlite` and its `-wal`/`-shm` files are copied into a fresh directory
+// under the system temp dir (readable only by the current user). The copy is
+// reused until the source files change. Copies stay SQLCipher-encrypted, and
+// are overwritten with zeros before being deleted on dispose and at process
+// exit (best effort: SSDs and copy-on-write filesystems may retain old blocks).
+
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  fsyncSync,
+  mkdtempSync,
+  openSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "fs";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+
+const COPY_ATTEMPTS = 3;
+const WIPE_CHUNK_BYTES = 1024 * 1024;
+
+// Every live snapshot, so they can all be wiped when the process exits
+const liveSnapshots = new Set<DatabaseSnapshot>();
+let exitHookInstalled = false;
+
+function installExitHook(): void {
+  if (exitHookInstalled) {
+    return;
+  }
+  exitHookInstalled = true;
+  process.on("exit", () => {
+    for (const snapshot of liveSnapshots) {
+      snapshot.dispose();
+    }
+  });
+}
+
+function secureDelete(path: string): void {
+  if (!existsSync(path)) {
+    return;
+  }
+
+  try {
+    const size = statSync(path).size;
+    const fd = openSync(path, "r+");
+    try {
+      const zeros = Buffer.alloc(Math.min(size, WIPE_CHUNK_BYTES));
+      for (let offset = 0; offset < size; offset += zeros.length) {
+        writeSync(fd, zeros, 0, Math.min(zeros.length, size - offset), offset);
+      }
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  } finally {
+    unlinkSync(path);
+  }
+}
+
+export class DatabaseSnapshot {
+  private dir: string | null = null;
+  private fingerprint: string | null = null;
+
+  constructor(private sourcePath: string) {}
+
+  private get sourceFiles(): string[] {
+    return [this.sourcePath, `${this.sourcePath}-wal`, `${this.sourcePath}-shm`];
+  }
+
+  // Size and modification time of the database and its WAL; changes whenever
+  // Signal commits a write. The -shm file is left out because it is touched by
+  // reads too.
+  private currentFingerprint(): string {
+    return this.sourceFiles
+      .slice(0, 2)
+      .map((file) => {
+        if (!existsSync(file)) {
+          return "-";
+        }
+        const stats = statSync(file);
+        return `${stats.size}:${stats.mtimeMs}`;
+      })
+      .join("|");
+  }
+
+  // Path of an up-to-date copy of the database, copying it first if the
+  // source has changed since the last copy.
+  refresh(): string {
+    const fingerprint = this.currentFingerprint();
+    if (this.dir && fingerprint === this.fingerprint) {
+      return join(this.dir, basename(this.sourcePath));
+    }
+
+    this.dispose();
+
+    // Signal may write while we copy; retry until the source holds still
+    for (let attempt = 1; attempt <= COPY_ATTEMPTS; attempt++) {
+      const before = this.currentFingerprint();
+      const dir = mkdtempSync(join(tmpdir(), "signal-mcp-"));
+      this.dir = dir;
+      liveSnapshots.add(this);
+      installExitHook();
+
+      for (const file of this.sourceFiles) {
+        if (existsSync(file)) {
+          copyFileSync(file, join(dir, basename(file)));
+        }
+      }
+
+      if (this.currentFingerprint() === before || attempt === COPY_ATTEMPTS) {
+        this.fingerprint = before;
+        return join(dir, basename(this.sourcePath));
+      }
+      this.dispose();
+    }
+
+    // Unreachable: the last attempt always returns
+    throw new Error("Failed to snapshot the Signal database");
+  }
+
+  // Wipe and remove the copy. Safe to call more than once.
+  dispose(): void {
+    if (!this.dir) {
+      return;
+    }
+
+    const dir = this.dir;
+    this.dir = null;
+    this.fingerprint = null;
+    liveSnapshots.delete(this);
+
+    for (const file of this.sourceFiles) {
+      try {
+        secureDelete(join(dir, basename(file)));
+      } catch {
+        // Keep going so the remaining files are still removed
+      }
+    }
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
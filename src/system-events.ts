@@ -0,0 +1,322 @@
+// Classification of Signal message types, and readable descriptions of the
+// system events Signal stores as messages (calls, timer changes, group
+// updates, safety-number changes and so on).
+//
+// Only `incoming` and `outgoing` rows are messages someone wrote. Every other
+// type is a notice Signal adds to the timeline; these have no body, and the
+// details of what happened live in type-specific fields of the message JSON
+// (and, for calls, in the `callsHistory` table).
+
+import { ResolveMember, describeGroupChange } from "./groups.js";
+
+export const USER_MESSAGE_TYPES = ["incoming", "outgoing"];
+
+export type MessageKind = "message" | "system";
+
+export interface SystemEvent {
+  // Signal's message type, e.g. "timer-notification"
+  type: string;
+  description: string;
+  // Who caused the event, when Signal records it
+  actor: string | null;
+  call?: CallRecord;
+  // Disappearing-message timer in seconds, for timer notifications (0 = off)
+  expireTimer?: number;
+}
+
+export interface CallRecord {
+  callId: string;
+  chatId: string | null;
+  chatName: string | null;
+  mode: "direct" | "group" | "adhoc";
+  media: "audio" | "video" | "group";
+  direction: "incoming" | "outgoing";
+  status: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationSeconds: number | null;
+  startedBy: string | null;
+  description: string;
+}
+
+// A row of Signal's `callsHistory` table. `endedTimestamp` and `startedById`
+// only exist in newer databases.
+export interface CallsHistoryRow {
+  callId: string;
+  peerId: string | null;
+  ringerId: string | null;
+  startedById?: string | null;
+  mode: string | null;
+  type: string | null;
+  direction: string | null;
+  status: string | null;
+  timestamp: number | null;
+  endedTimestamp?: number | null;
+}
+
+// Name lookups and call records needed to describe events
+export interface EventContext {
+  member: ResolveMember;
+  nameForConversationId(conversationId: string): string | null;
+  findCall(callId: string): CallRecord | null;
+}
+
+export function classifyMessageType(type: string | null | undefined): MessageKind {
+  return type && USER_MESSAGE_TYPES.includes(type) ? "message" : "system";
+}
+
+const TIME_UNITS: Array<[number, string]> = [
+  [7 * 24 * 60 * 60, "week"],
+  [24 * 60 * 60, "day"],
+  [60 * 60, "hour"],
+  [60, "minute"],
+  [1, "second"],
+];
+
+// A duration in seconds in the largest unit that fits exactly, e.g. "1 week"
+// or "8 hours", as Signal shows timer settings
+export function formatTimerDuration(seconds: number): string {
+  for (const [size, unit] of TIME_UNITS) {
+    if (seconds >= size && seconds % size === 0) {
+      const count = seconds / size;
+      return `${count} ${unit}${count === 1 ? "" : "s"}`;
+    }
+  }
+  return `${seconds} seconds`;
+}
+
+// A call length as an adjective, e.g. "12-minute", rounded to the nearest unit
+function formatCallDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.max(1, Math.round(seconds))}-second`;
+  }
+  if (seconds < 60 * 60) {
+    return `${Math.round(seconds / 60)}-minute`;
+  }
+  const hours = Math.round((seconds / 3600) * 10) / 10;
+  return `${hours}-hour`;
+}
+
+const MESSAGE_REQUEST_RESPONSES: Record<string, string> = {
+  ACCEPT: "accepted the message request",
+  BLOCK: "blocked this chat",
+  UNBLOCK: "unblocked this chat",
+  SPAM: "reported this chat as spam",
+};
+
+function lower(value: string | null | undefined, fallback: string): string {
+  return value ? value.toLowerCase() : fallback;
+}
+
+const MEDIA_TYPES: Record<string, CallRecord["media"]> = {
+  audio: "audio",
+  video: "video",
+  group: "group",
+  adhoc: "group",
+};
+
+function describeCall(call: Omit<CallRecord, "description">, peerName: string): string {
+  const kind = call.media === "audio" ? "voice call" : call.media === "video" ? "video call" : "group call";
+  const length = call.durationSeconds ? `${formatCallDuration(call.durationSeconds)} ` : "";
+  const outgoing = call.direction === "outgoing";
+  const starter = call.startedBy === "Me" ? "You" : call.startedBy;
+
+  switch (call.status) {
+    case "accepted":
+    case "joined":
+    case "joinedadhoc":
+      if (call.mode !== "direct") {
+        return `${starter ?? (outgoing ? "You" : peerName)} started a ${length}${kind}`;
+      }
+      return outgoing ? `You started a ${length}${kind} with ${peerName}` : `${peerName} started a ${length}${kind}`;
+    case "missed":
+    case "missednotificationprofile":
+      return outgoing ? `${peerName} missed your ${kind}` : `Missed ${kind} from ${peerName}`;
+    case "declined":
+      return outgoing ? `${peerName} declined your ${kind}` : `You declined a ${kind} from ${peerName}`;
+    case "deleted":
+      return `Deleted ${kind}`;
+    case "genericgroupcall":
+    case "ringing":
+    case "outgoingring":
+      return `${starter ?? peerName} started a ${kind}`;
+    default:
+      return outgoing ? `Outgoing ${kind} to ${peerName}` : `Incoming ${kind} from ${peerName}`;
+  }
+}
+
+// Turn a `callsHistory` row into a call record. `chat` is the conversation the
+// call belongs to, `startedBy` the name of whoever started it.
+export function parseCallRecord(
+  row: CallsHistoryRow,
+  chat: { id: string; name: string | null } | null,
+  startedBy: string | null
+): CallRecord {
+  const start = row.timestamp ?? null;
+  const end = row.endedTimestamp ?? null;
+  const call: Omit<CallRecord, "description"> = {
+    callId: row.callId,
+    chatId: chat?.id ?? null,
+    chatName: chat?.name ?? null,
+    mode: lower(row.mode, "direct") as CallRecord["mode"],
+    media: MEDIA_TYPES[lower(row.type, "audio")] ?? "audio",
+    direction: lower(row.direction, "incoming") === "outgoing" ? "outgoing" : "incoming",
+    status: lower(row.status, "unknown"),
+    startedAt: start ? new Date(start).toISOString() : null,
+    endedAt: end ? new Date(end).toISOString() : null,
+    durationSeconds: start && end && end > start ? Math.round((end - start) / 1000) : null,
+    startedBy,
+  };
+  return { ...call, description: describeCall(call, chat?.name ?? "Unknown") };
+}
+
+// Call messages from before the callsHistory table carry their details inline
+function parseLegacyCall(details: any, chatName: string): CallRecord {
+  const direct = details.callMode !== "Group";
+  const accepted = typeof details.acceptedTime === "number" ? details.acceptedTime : null;
+  const ended = typeof details.endedTime === "number" ? details.endedTime : null;
+  const call: Omit<CallRecord, "description"> = {
+    callId: "",
+    chatId: null,
+    chatName,
+    mode: direct ? "direct" : "group",
+    media: !direct ? "group" : details.wasVideoCall ? "video" : "audio",
+    direction: details.wasIncoming === false ? "outgoing" : "incoming",
+    status: details.wasDeclined ? "declined" : accepted ? "accepted" : direct ? "missed" : "genericgroupcall",
+    startedAt: accepted ? new Date(accepted).toISOString() : null,
+    endedAt: ended ? new Date(ended).toISOString() : null,
+    durationSeconds: accepted && ended && ended > accepted ? Math.round((ended - accepted) / 1000) : null,
+    startedBy: null,
+  };
+  return { ...call, description: describeCall(call, chatName) };
+}
+
+// Describe a system event. `json` is the parsed message JSON and `chatName`
+// the conversation it appears in.
+export function describeSystemEvent(
+  type: string,
+  json: any,
+  chatName: string,
+  context: EventContext
+): SystemEvent {
+  const serviceIdName = (serviceId: unknown) =>
+    typeof serviceId === "string" && serviceId ? context.member(serviceId).name : null;
+  const conversationName = (conversationId: unknown) =>
+    typeof conversationId === "string" && conversationId
+      ? context.nameForConversationId(conversationId)
+      : null;
+
+  switch (type) {
+    case "call-history": {
+      const call =
+        (json.callId ? context.findCall(String(json.callId)) : null) ??
+        (json.callHistoryDetails ? parseLegacyCall(json.callHistoryDetails, chatName) : null);
+      return call
+        ? { type, description: call.description, actor: call.startedBy, call }
+        : { type, description: "Call", actor: null };
+    }
+
+    case "timer-notification": {
+      const update = json.expirationTimerUpdate ?? {};
+      const actor =
+        serviceIdName(update.sourceServiceId || update.sourceUuid) ??
+        (update.source ? String(update.source) : null);
+      const seconds = typeof update.expireTimer === "number" ? update.expireTimer : 0;
+      const setting = seconds > 0
+        ? `set disappearing messages to ${formatTimerDuration(seconds)}`
+        : "turned off disappearing messages";
+      return {
+        type,
+        description: actor
+          ? `${actor === "Me" ? "You" : actor} ${setting}`
+          : seconds > 0
+            ? `Disappearing messages set to ${formatTimerDuration(seconds)}`
+            : "Disappearing messages turned off",
+        actor,
+        expireTimer: seconds,
+      };
+    }
+
+    case "universal-timer-notification":
+      return { type, description: "Your default disappearing message timer applies to this chat", actor: null };
+
+    case "group-v2-change": {
+      const change = json.groupV2Change;
+      return {
+        type,
+        description: describeGroupChange(change, context.member).join("; ") || "The group was updated",
+        actor: serviceIdName(change?.from),
+      };
+    }
+
+    case "group-v1-migration":
+      return { type, description: "This group was upgraded to a New Group", actor: null };
+
+    case "keychange": {
+      const who = conversationName(json.key_changed) ?? chatName;
+      return { type, description: `Safety number with ${who} changed`, actor: null };
+    }
+
+    case "verified-change": {
+      const who = conversationName(json.verifiedChanged) ?? chatName;
+      const by = json.local ? "You" : "Another of your devices";
+      return {
+        type,
+        description: json.verified ? `${by} marked ${who} as verified` : `${by} marked ${who} as not verified`,
+        actor: json.local ? "Me" : null,
+      };
+    }
+
+    case "profile-change": {
+      const who = conversationName(json.changedId) ?? chatName;
+      const change = json.profileChange ?? {};
+      return {
+        type,
+        description: change.oldName && change.newName
+          ? `${change.oldName} changed their profile name to ${change.newName}`
+          : `${who} changed their profile`,
+        actor: who,
+      };
+    }
+
+    case "chat-session-refreshed":
+      return { type, description: "Chat session refreshed", actor: null };
+
+    case "delivery-issue": {
+      const who = serviceIdName(json.sourceServiceId) ?? chatName;
+      return { type, description: `A message from ${who} couldn't be delivered`, actor: null };
+    }
+
+    case "change-number-notification": {
+      const who = serviceIdName(json.sourceServiceId) ?? chatName;
+      return { type, description: `${who} changed their phone number`, actor: who };
+    }
+
+    case "conversation-merge":
+      return { type, description: `Your message history with ${chatName} was merged`, actor: null };
+
+    case "phone-number-discovery":
+      return { type, description: `${chatName} belongs to a phone number you have saved`, actor: null };
+
+    case "title-transition-notification":
+      return { type, description: `${chatName}'s name has changed`, actor: null };
+
+    case "joined-signal-notification":
+      return { type, description: `${chatName} is on Signal`, actor: chatName };
+
+    case "contact-removed-notification":
+      return { type, description: `You removed ${chatName}`, actor: "Me" };
+
+    case "message-request-response-event": {
+      const response = MESSAGE_REQUEST_RESPONSES[json.messageRequestResponseEvent];
+      return {
+        type,
+        description: response ? `You ${response}` : "You responded to the message request",
+        actor: "Me",
+      };
+    }
+
+    default:
+      return { type, description: `Signal event (${type})`, actor: null };
+  }
+}